@@ -0,0 +1,131 @@
+import type { BenchmarkPoint } from '../../db';
+import type { PerformanceMetrics, TimeSeriesPoint } from '../types/metrics';
+import { differenceInDays, parseISO } from 'date-fns';
+
+export type BenchmarkMetrics = Pick<PerformanceMetrics, 'alpha' | 'beta' | 'trackingError' | 'informationRatio'>;
+
+// Fewer paired periods than this give meaningless regressions
+const MIN_BENCHMARK_PERIODS = 3;
+
+/**
+ * Benchmark level on a date, carrying the last known value forward.
+ * Returns undefined before the series starts.
+ */
+export function getBenchmarkValueAt(points: BenchmarkPoint[], date: string): number | undefined {
+  let low = 0;
+  let high = points.length - 1;
+  let found: number | undefined;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].date <= date) {
+      found = points[mid].value;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Fill `benchmark` on each point of a portfolio series
+ */
+export function attachBenchmarkToSeries(
+  timeSeriesData: TimeSeriesPoint[],
+  points: BenchmarkPoint[]
+): TimeSeriesPoint[] {
+  return timeSeriesData.map(point => ({
+    ...point,
+    benchmark: getBenchmarkValueAt(points, point.date)
+  }));
+}
+
+/**
+ * Alpha, beta, tracking error and information ratio from paired period returns.
+ * Portfolio returns are cash-flow adjusted the same way as TWR; results are annualized
+ * using the average spacing between observations (risk-free rate assumed 0).
+ */
+export function calculateBenchmarkMetrics(timeSeriesData: TimeSeriesPoint[]): BenchmarkMetrics | undefined {
+  const portfolioReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  const periodDays: number[] = [];
+
+  for (let i = 1; i < timeSeriesData.length; i++) {
+    const current = timeSeriesData[i];
+    const previous = timeSeriesData[i - 1];
+    const adjustedPreviousValue = previous.value + (current.contributions || 0);
+
+    if (adjustedPreviousValue <= 0 || !previous.benchmark || current.benchmark === undefined) continue;
+
+    portfolioReturns.push(current.value / adjustedPreviousValue - 1);
+    benchmarkReturns.push(current.benchmark / previous.benchmark - 1);
+    periodDays.push(differenceInDays(parseISO(current.date), parseISO(previous.date)));
+  }
+
+  if (portfolioReturns.length < MIN_BENCHMARK_PERIODS) return undefined;
+
+  const averageDays = periodDays.reduce((sum, days) => sum + days, 0) / periodDays.length;
+  if (averageDays <= 0) return undefined;
+  const periodsPerYear = 365.25 / averageDays;
+
+  const meanPortfolio = mean(portfolioReturns);
+  const meanBenchmark = mean(benchmarkReturns);
+  const benchmarkVariance = sampleVariance(benchmarkReturns, meanBenchmark);
+
+  const covariance = portfolioReturns.reduce(
+    (sum, r, i) => sum + (r - meanPortfolio) * (benchmarkReturns[i] - meanBenchmark),
+    0
+  ) / (portfolioReturns.length - 1);
+
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : undefined;
+  const alpha = beta !== undefined
+    ? (meanPortfolio - beta * meanBenchmark) * periodsPerYear * 100
+    : undefined;
+
+  const activeReturns = portfolioReturns.map((r, i) => r - benchmarkReturns[i]);
+  const meanActive = mean(activeReturns);
+  const activeDeviation = Math.sqrt(sampleVariance(activeReturns, meanActive));
+  const trackingError = activeDeviation * Math.sqrt(periodsPerYear) * 100;
+  const informationRatio = activeDeviation > 0
+    ? (meanActive * periodsPerYear) / (activeDeviation * Math.sqrt(periodsPerYear))
+    : undefined;
+
+  return { alpha, beta, trackingError, informationRatio };
+}
+
+/**
+ * What the portfolio would be worth had the same money gone into the benchmark:
+ * the starting value and each later contribution buy index units at that date's level.
+ * Dates before the benchmark starts are null.
+ */
+export function simulateBenchmarkGrowth(
+  timeSeriesData: TimeSeriesPoint[],
+  points: BenchmarkPoint[]
+): (number | null)[] {
+  let units: number | null = null;
+
+  return timeSeriesData.map(point => {
+    const level = getBenchmarkValueAt(points, point.date);
+    if (!level) return null;
+
+    if (units === null) {
+      // First date with benchmark data: invest the whole current value
+      units = point.value / level;
+    } else if (point.contributions) {
+      units += point.contributions / level;
+    }
+
+    return units * level;
+  });
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sampleVariance(values: number[], average: number): number {
+  if (values.length < 2) return 0;
+  return values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1);
+}
@@ -0,0 +1,123 @@
+import {
+  runAnalyticsMethod,
+  type AnalyticsArgs,
+  type AnalyticsMethod,
+  type AnalyticsRequest,
+  type AnalyticsResponse,
+  type AnalyticsResult
+} from './rpc';
+
+// Rejection reason of a call superseded by a newer one on the same channel
+export const ANALYTICS_CANCELLED = 'Analytics request cancelled';
+
+export const isAnalyticsCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.message === ANALYTICS_CANCELLED;
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  channel?: string;
+}
+
+/**
+ * Typed calls into the analytics worker.
+ * Calls on the same channel (e.g. 'summary') replace each other: the older call is cancelled and its
+ * promise rejects with ANALYTICS_CANCELLED, so only the latest slider position is computed.
+ * Without Worker support (or if the worker fails) calls run on the main thread.
+ */
+const createAnalyticsClient = () => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingCall>();
+  const latestByChannel = new Map<string, number>();
+
+  const settle = (id: number) => {
+    const call = pending.get(id);
+    pending.delete(id);
+    if (call?.channel && latestByChannel.get(call.channel) === id) {
+      latestByChannel.delete(call.channel);
+    }
+    return call;
+  };
+
+  const post = (request: AnalyticsRequest) => worker?.postMessage(request);
+
+  try {
+    if (typeof Worker !== 'undefined') {
+      worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<AnalyticsResponse>) => {
+        const response = event.data;
+        const call = settle(response.id);
+        if (!call) return; // cancelled while computing
+        if ('error' in response) {
+          call.reject(new Error(response.error));
+        } else {
+          call.resolve(response.result);
+        }
+      };
+      worker.onerror = (event) => {
+        console.error('Analytics worker failed; calculating on the main thread instead:', event.message);
+        worker?.terminate();
+        worker = null;
+        for (const id of [...pending.keys()]) {
+          settle(id)?.reject(new Error('The analytics worker stopped'));
+        }
+      };
+    }
+  } catch (error) {
+    console.error('Failed to start the analytics worker:', error);
+    worker = null;
+  }
+
+  const cancel = (id: number) => {
+    const call = settle(id);
+    if (!call) return;
+    post({ type: 'cancel', id });
+    call.reject(new Error(ANALYTICS_CANCELLED));
+  };
+
+  // Cancel whatever is still running on a channel, e.g. when its result is already known
+  const cancelChannel = (channel: string) => {
+    const latest = latestByChannel.get(channel);
+    if (latest !== undefined) cancel(latest);
+  };
+
+  const call = <M extends AnalyticsMethod>(
+    method: M,
+    args: AnalyticsArgs<M>,
+    channel?: string
+  ): Promise<AnalyticsResult<M>> => {
+    const id = nextId++;
+    if (channel) {
+      const stale = latestByChannel.get(channel);
+      if (stale !== undefined) cancel(stale);
+      latestByChannel.set(channel, id);
+    }
+
+    return new Promise<AnalyticsResult<M>>((resolve, reject) => {
+      // The worker runs `method`, so its result is that method's result type
+      pending.set(id, { resolve: result => resolve(result as AnalyticsResult<M>), reject, channel });
+      if (worker) {
+        post({ type: 'call', id, method, args });
+        return;
+      }
+      // Main-thread fallback, deferred so a newer call on the channel can still cancel this one
+      setTimeout(() => {
+        const call = pending.get(id);
+        if (!call) return;
+        try {
+          const result = runAnalyticsMethod(method, args);
+          settle(id);
+          call.resolve(result);
+        } catch (error) {
+          settle(id);
+          call.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }, 0);
+    });
+  };
+
+  return { call, cancelChannel };
+};
+
+export const analyticsClient = createAnalyticsClient();
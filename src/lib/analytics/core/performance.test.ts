@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetEntry } from '../../db';
+import { calculatePeriodCashFlows, calculatePeriodComparison } from './performance';
+
+const entry = (date: string, amount: number, contribution?: number): AssetEntry => ({
+  date,
+  platform: 'Brokerage',
+  amount,
+  rate: 7,
+  transactionType: contribution ? 'contribution' : 'snapshot',
+  contributionAmount: contribution
+});
+
+const history = [
+  entry('2022-12-31', 10000, 10000),
+  entry('2023-06-30', 11000, 500),
+  entry('2023-12-31', 12000),
+  entry('2024-03-31', 13000, 400),
+  entry('2024-06-30', 13500)
+];
+
+describe('calculatePeriodCashFlows', () => {
+  it('leaves flows on the base date in the starting value', () => {
+    const ytd = calculatePeriodCashFlows(history, 'YTD', '2024-06-30');
+    expect(ytd.netContributions).toBe(400);
+    expect(ytd.investmentGains).toBe(1100);
+
+    // The 1Y base date is the 2023-06-30 entry, so its 500 is not a contribution of the year
+    const year = calculatePeriodCashFlows(history, '1Y', '2024-06-30');
+    expect(year.netContributions).toBe(400);
+    expect(year.investmentGains).toBe(2100);
+  });
+
+  it('counts the first deposits as contributions for ALL', () => {
+    const all = calculatePeriodCashFlows(history, 'ALL', '2024-06-30');
+    expect(all.netContributions).toBe(10900);
+    expect(all.investmentGains).toBe(2600);
+  });
+
+  it('has nothing to report for an end date before the first entry', () => {
+    const early = calculatePeriodCashFlows(history, 'ALL', '2022-01-01');
+    expect(early.netContributions).toBe(0);
+    expect(early.investmentGains).toBe(0);
+  });
+});
+
+describe('calculatePeriodComparison', () => {
+  const comparison = calculatePeriodComparison(history, '2024-06-30');
+  const period = (name: string) => comparison.find(metrics => metrics.period === name)!;
+
+  it('measures each period from its base date', () => {
+    expect(period('YTD')).toMatchObject({ startDate: '2023-12-31', startValue: 12000, endValue: 13500, fullPeriod: true });
+    expect(period('1Y')).toMatchObject({ startDate: '2023-06-30', startValue: 11000, fullPeriod: true });
+    expect(period('ALL')).toMatchObject({ startDate: '2022-12-31', startValue: 10000, fullPeriod: true });
+  });
+
+  it('marks periods longer than the history as partial', () => {
+    expect(period('5Y')).toMatchObject({ startDate: '2022-12-31', fullPeriod: false });
+  });
+
+  it('ignores entries after the end date', () => {
+    expect(calculatePeriodComparison(history, '2023-12-31').find(metrics => metrics.period === 'YTD'))
+      .toMatchObject({ startDate: '2022-12-31', endValue: 12000 });
+  });
+
+  it('is empty without two dates up to the end date', () => {
+    expect(calculatePeriodComparison(history, '2022-12-31')).toEqual([]);
+    expect(calculatePeriodComparison(history, '2022-01-01')).toEqual([]);
+  });
+});
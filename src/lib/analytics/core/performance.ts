@@ -3,12 +3,17 @@ import type {
   PerformanceMetrics, 
   CashFlowMetrics, 
   TimeSeriesPoint,
-  TimePeriod 
+  TimePeriod,
+  PeriodMetrics
 } from '../types/metrics';
 import { addDays, differenceInDays, parseISO, format } from 'date-fns';
+import { buildMoneyWeightedCashFlows, calculateXIRR } from './xirr';
+import { TIME_PERIODS, filterEntriesByPeriod, getPeriodStartDate } from './periods';
 
 /**
- * Calculate cash flow metrics by separating contributions from investment performance
+ * Calculate cash flow metrics by separating contributions from investment performance.
+ * Transfers between platforms are not contributions or withdrawals; dividends, interest
+ * and fees are tracked separately because they are part of the return.
  */
 export function calculateCashFlowMetrics(entries: AssetEntry[]): CashFlowMetrics {
   // Sort entries by date
@@ -17,14 +22,26 @@ export function calculateCashFlowMetrics(entries: AssetEntry[]): CashFlowMetrics
   let totalContributions = 0;
   let totalWithdrawals = 0;
   let hasAnyContributionData = false;
-  const contributionsByPeriod: Array<{
-    date: string;
-    amount: number;
-    type: 'contribution' | 'withdrawal';
-  }> = [];
+  const contributionsByPeriod: CashFlowMetrics['contributionsByPeriod'] = [];
+  const incomeByPeriod: CashFlowMetrics['incomeByPeriod'] = [];
+  const incomeTotals = { dividend: 0, interest: 0, fee: 0 };
 
   // Process each entry to identify contributions/withdrawals
   for (const entry of sortedEntries) {
+    if (entry.incomeAmount) {
+      hasAnyContributionData = true;
+      const type = entry.transactionType === 'dividend' || entry.transactionType === 'interest' || entry.transactionType === 'fee'
+        ? entry.transactionType
+        : (entry.incomeAmount > 0 ? 'dividend' : 'fee');
+      incomeTotals[type] += entry.incomeAmount;
+      incomeByPeriod.push({ date: entry.date, amount: entry.incomeAmount, type });
+    }
+    
+    if (entry.transactionType === 'transfer') {
+      hasAnyContributionData = true;
+      continue;
+    }
+    
     if (entry.contributionAmount !== undefined && entry.contributionAmount !== null) {
       hasAnyContributionData = true;
       if (entry.contributionAmount > 0) {
@@ -77,17 +94,25 @@ export function calculateCashFlowMetrics(entries: AssetEntry[]): CashFlowMetrics
     investmentGains,
     averageContributionAmount,
     contributionFrequency,
-    contributionsByPeriod
+    totalDividends: incomeTotals.dividend,
+    totalInterest: incomeTotals.interest,
+    totalFees: Math.abs(incomeTotals.fee),
+    contributionsByPeriod,
+    incomeByPeriod
   };
 }
 
 /**
- * Enhanced performance calculation that handles mixed data quality
+ * Enhanced performance calculation that handles mixed data quality.
+ * With a period, only the entries from the period's base date to the last entry are used.
  */
 export function calculatePerformanceMetrics(
   entries: AssetEntry[],
   period?: TimePeriod
 ): PerformanceMetrics & { dataQualityInfo: DataQualityInfo } {
+  if (period) {
+    entries = filterEntriesByPeriod(entries, period);
+  }
   if (entries.length < 2) {
     return {
       ...createEmptyPerformanceMetrics(),
@@ -131,7 +156,8 @@ function analyzeDataQuality(entries: AssetEntry[]): DataQualityInfo {
   let snapshotOnlyCount = 0;
   
   for (const entry of entries) {
-    if (entry.transactionType === 'contribution' || entry.dataQuality === 'enhanced') {
+    // Any recorded transaction means the period's cash flows are known
+    if (entry.transactionType !== 'snapshot' || entry.dataQuality === 'enhanced') {
       contributionCount++;
     } else {
       snapshotOnlyCount++;
@@ -181,10 +207,11 @@ function calculateEnhancedPerformanceMetrics(
   
   return {
     timeWeightedReturn: calculateTimeWeightedReturn(timeSeriesData),
-    moneyWeightedReturn: calculateMoneyWeightedReturn(timeSeriesData),
+    ...calculateMoneyWeightedReturn(timeSeriesData),
     cagr: calculateCAGR(timeSeriesData),
     totalReturn: calculateTotalReturn(timeSeriesData),
     volatility: calculateVolatility(timeSeriesData),
+    maxDrawdown: calculateMaxDrawdown(timeSeriesData),
     dataQualityInfo
   };
 }
@@ -196,28 +223,15 @@ function calculateHybridPerformanceMetrics(
   entries: AssetEntry[], 
   dataQualityInfo: DataQualityInfo
 ): PerformanceMetrics & { dataQualityInfo: DataQualityInfo } {
-  // Separate enhanced and snapshot-only periods
-  const enhancedPeriods = entries.filter(e => e.dataQuality === 'enhanced');
-  const snapshotPeriods = entries.filter(e => e.dataQuality === 'snapshot_only');
-  
-  // Calculate metrics for each period type
-  const enhancedMetrics = enhancedPeriods.length >= 2 
-    ? calculateEnhancedPerformanceMetrics(enhancedPeriods, dataQualityInfo)
-    : null;
-  
-  const legacyMetrics = snapshotPeriods.length >= 2
-    ? calculateLegacyPerformanceMetrics(snapshotPeriods, dataQualityInfo)
-    : null;
-  
-  // Combine results using weighted approach
   const timeSeriesData = createTimeSeriesFromEntries(entries);
   
   return {
     timeWeightedReturn: calculateTimeWeightedReturn(timeSeriesData), // Best effort with mixed data
-    moneyWeightedReturn: enhancedMetrics?.moneyWeightedReturn || 0, // Only if we have cash flow data
+    ...calculateMoneyWeightedReturn(timeSeriesData), // Uses every dated contribution that was recorded
     cagr: calculateCAGR(timeSeriesData),
     totalReturn: calculateTotalReturn(timeSeriesData),
     volatility: calculateVolatility(timeSeriesData),
+    maxDrawdown: calculateMaxDrawdown(timeSeriesData),
     dataQualityInfo
   };
 }
@@ -236,7 +250,9 @@ function calculateLegacyPerformanceMetrics(
   
   return {
     timeWeightedReturn: 0, // Can't calculate without cash flow data
-    moneyWeightedReturn: 0, // Can't calculate without cash flow data
+    moneyWeightedReturn: null, // Can't calculate without cash flow data
+    moneyWeightedReturnStatus: 'insufficient_data',
+    moneyWeightedReturnMessage: 'Requires contribution data',
     cagr: 0, // Misleading without separating contributions - don't show
     totalReturn: calculateTotalReturn(timeSeriesData), // Total change (includes contributions)
     volatility: calculateProperVolatility(timeSeriesData), // Use proper frequency detection
@@ -247,7 +263,7 @@ function calculateLegacyPerformanceMetrics(
 /**
  * Create time series data from asset entries
  */
-function createTimeSeriesFromEntries(entries: AssetEntry[]): TimeSeriesPoint[] {
+export function createTimeSeriesFromEntries(entries: AssetEntry[]): TimeSeriesPoint[] {
   const timeSeriesMap = new Map<string, TimeSeriesPoint>();
   
   for (const entry of entries) {
@@ -273,7 +289,7 @@ function createTimeSeriesFromEntries(entries: AssetEntry[]): TimeSeriesPoint[] {
  * Calculate Time-Weighted Return (TWR)
  * This removes the impact of cash flows and shows true investment performance
  */
-function calculateTimeWeightedReturn(timeSeriesData: TimeSeriesPoint[]): number {
+export function calculateTimeWeightedReturn(timeSeriesData: TimeSeriesPoint[]): number {
   if (timeSeriesData.length < 2) return 0;
   
   let cumulativeReturn = 1;
@@ -294,29 +310,54 @@ function calculateTimeWeightedReturn(timeSeriesData: TimeSeriesPoint[]): number
   return (cumulativeReturn - 1) * 100;
 }
 
+/**
+ * Largest peak-to-trough fall of the time-weighted growth index, as a positive percentage.
+ * Measured on returns rather than values, so withdrawals don't count as losses.
+ */
+export function calculateMaxDrawdown(timeSeriesData: TimeSeriesPoint[]): number {
+  let index = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+
+  for (let i = 1; i < timeSeriesData.length; i++) {
+    const adjustedPreviousValue = timeSeriesData[i - 1].value + (timeSeriesData[i].contributions || 0);
+    if (adjustedPreviousValue > 0) {
+      index *= timeSeriesData[i].value / adjustedPreviousValue;
+    }
+    peak = Math.max(peak, index);
+    maxDrawdown = Math.max(maxDrawdown, (peak - index) / peak);
+  }
+
+  return maxDrawdown * 100;
+}
+
 /**
  * Calculate Money-Weighted Return (MWR)
- * This shows the actual investor experience including timing of cash flows
+ * This shows the actual investor experience including timing of cash flows.
+ * Solved as XIRR: starting value and each dated contribution are invested, the ending value is received.
  */
-function calculateMoneyWeightedReturn(timeSeriesData: TimeSeriesPoint[]): number {
-  if (timeSeriesData.length < 2) return 0;
-  
-  const totalContributions = timeSeriesData.reduce((sum, point) => 
-    sum + (point.contributions || 0), 0);
-  const finalValue = timeSeriesData[timeSeriesData.length - 1].value;
-  const initialValue = timeSeriesData[0].value;
+export function calculateMoneyWeightedReturn(
+  timeSeriesData: TimeSeriesPoint[]
+): Pick<PerformanceMetrics, 'moneyWeightedReturn' | 'moneyWeightedReturnStatus' | 'moneyWeightedReturnMessage'> {
+  if (timeSeriesData.length < 2) {
+    return {
+      moneyWeightedReturn: null,
+      moneyWeightedReturnStatus: 'insufficient_data',
+      moneyWeightedReturnMessage: 'Needs at least two dates'
+    };
+  }
   
-  if (totalContributions <= 0) return 0;
+  const result = calculateXIRR(buildMoneyWeightedCashFlows(timeSeriesData));
   
-  // Simplified MWR calculation
-  // In a real implementation, you'd use IRR (Internal Rate of Return)
-  return ((finalValue - initialValue) / totalContributions) * 100;
+  return result.converged
+    ? { moneyWeightedReturn: result.rate, moneyWeightedReturnStatus: 'converged' }
+    : { moneyWeightedReturn: null, moneyWeightedReturnStatus: 'not_converged', moneyWeightedReturnMessage: result.message };
 }
 
 /**
  * Calculate Compound Annual Growth Rate (CAGR)
  */
-function calculateCAGR(timeSeriesData: TimeSeriesPoint[]): number {
+export function calculateCAGR(timeSeriesData: TimeSeriesPoint[]): number {
   if (timeSeriesData.length < 2) return 0;
   
   const startPoint = timeSeriesData[0];
@@ -448,7 +489,8 @@ function calculateAnnualizedFrequency(dates: string[]): number {
 function createEmptyPerformanceMetrics(): PerformanceMetrics {
   return {
     timeWeightedReturn: 0,
-    moneyWeightedReturn: 0,
+    moneyWeightedReturn: null,
+    moneyWeightedReturnStatus: 'insufficient_data',
     cagr: 0,
     totalReturn: 0,
     volatility: 0
@@ -484,6 +526,55 @@ export function calculateEnhancedMetrics(
   };
 }
 
+// Total value recorded on a date
+const sumOn = (entries: AssetEntry[], date: string) =>
+  entries.filter(entry => entry.date === date).reduce((sum, entry) => sum + entry.amount, 0);
+
+/**
+ * Contributions, withdrawals and income within a period. Flows on the base date are before the period
+ * (they are in its starting value), except for ALL, where the first deposits are contributions.
+ * Investment gains are the change in value that contributions don't explain.
+ */
+export function calculatePeriodCashFlows(history: AssetEntry[], period: TimePeriod, endDate: string): CashFlowMetrics {
+  const windowEntries = filterEntriesByPeriod(history, period, endDate);
+  const baseDate = windowEntries.reduce((earliest, entry) => entry.date < earliest ? entry.date : earliest, endDate);
+  const flowEntries = period === 'ALL' ? windowEntries : windowEntries.filter(entry => entry.date > baseDate);
+  const cashFlow = calculateCashFlowMetrics(flowEntries);
+
+  const hasFlowData = flowEntries.some(entry => entry.transactionType !== 'snapshot' || entry.contributionAmount !== undefined);
+  const startValue = period === 'ALL' ? 0 : sumOn(windowEntries, baseDate);
+  const investmentGains = sumOn(windowEntries, endDate) - startValue - cashFlow.netContributions;
+  return {
+    ...cashFlow,
+    contributionGains: hasFlowData ? cashFlow.netContributions : 0,
+    investmentGains: hasFlowData ? investmentGains : 0
+  };
+}
+
+/**
+ * Returns, risk and cash flows for every standard period ending on `endDate`, from the full history
+ */
+export function calculatePeriodComparison(history: AssetEntry[], endDate: string): PeriodMetrics[] {
+  const dates = [...new Set(history.map(entry => entry.date))].filter(date => date <= endDate).sort();
+  if (dates.length < 2) return [];
+
+  return TIME_PERIODS.map(period => {
+    const windowEntries = filterEntriesByPeriod(history, period, endDate);
+    const startDate = windowEntries.reduce((earliest, entry) => entry.date < earliest ? entry.date : earliest, endDate);
+    const periodStart = getPeriodStartDate(endDate, period);
+    return {
+      period,
+      startDate,
+      endDate,
+      startValue: sumOn(windowEntries, startDate),
+      endValue: sumOn(windowEntries, endDate),
+      performance: calculatePerformanceMetrics(windowEntries),
+      cashFlow: calculatePeriodCashFlows(history, period, endDate),
+      fullPeriod: periodStart === null || startDate <= periodStart
+    };
+  });
+}
+
 interface DataQualityInfo {
   hasEnhancedData: boolean;
   hasSnapshotOnlyData: boolean;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetEntry } from '../../db';
+import { filterEntriesByPeriod, getPeriodBaseDate } from './periods';
+
+const entry = (date: string, amount: number): AssetEntry => ({ date, platform: 'Brokerage', amount, rate: 7, transactionType: 'snapshot' });
+
+const history = [
+  entry('2022-12-31', 10000),
+  entry('2023-06-30', 11000),
+  entry('2023-12-31', 12000),
+  entry('2024-03-31', 13000),
+  entry('2024-06-30', 13500)
+];
+const dates = (entries: AssetEntry[]) => entries.map(item => item.date);
+
+describe('getPeriodBaseDate', () => {
+  it('measures YTD from the last date of the previous year', () => {
+    expect(getPeriodBaseDate(dates(history), '2024-06-30', 'YTD')).toBe('2023-12-31');
+  });
+
+  it('uses a date that falls exactly on the period start', () => {
+    expect(getPeriodBaseDate(dates(history), '2024-06-30', '1Y')).toBe('2023-06-30');
+  });
+
+  it('falls back to the first date when the history is shorter than the period', () => {
+    expect(getPeriodBaseDate(dates(history), '2024-06-30', '5Y')).toBe('2022-12-31');
+    expect(getPeriodBaseDate(dates(history), '2024-06-30', 'ALL')).toBe('2022-12-31');
+  });
+});
+
+describe('filterEntriesByPeriod', () => {
+  it('keeps the base date and leaves out entries after the end date', () => {
+    expect(dates(filterEntriesByPeriod(history, 'YTD', '2024-03-31'))).toEqual(['2023-12-31', '2024-03-31']);
+  });
+
+  it('ends on the last entry without an end date', () => {
+    // Six months back is 2023-12-30, one day before the year-end entry
+    expect(dates(filterEntriesByPeriod(history, '6M'))).toEqual(['2023-06-30', '2023-12-31', '2024-03-31', '2024-06-30']);
+  });
+
+  it('keeps everything up to the end date for ALL', () => {
+    expect(dates(filterEntriesByPeriod(history, 'ALL', '2023-12-31'))).toEqual(['2022-12-31', '2023-06-30', '2023-12-31']);
+  });
+
+  it('is empty for an end date before the first entry', () => {
+    expect(filterEntriesByPeriod(history, 'ALL', '2022-01-01')).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { AssetEntry } from '../../db';
+import type { TimePeriod } from '../types/metrics';
+import { format, parseISO, startOfYear, subMonths, subYears } from 'date-fns';
+
+// Every period, in the order they are offered and compared
+export const TIME_PERIODS: TimePeriod[] = ['1M', '3M', '6M', 'YTD', '1Y', '2Y', '3Y', '5Y', 'ALL'];
+
+export const TIME_PERIOD_LABELS: Record<TimePeriod, string> = {
+  '1M': '1 month',
+  '3M': '3 months',
+  '6M': '6 months',
+  'YTD': 'Year to date',
+  '1Y': '1 year',
+  '2Y': '2 years',
+  '3Y': '3 years',
+  '5Y': '5 years',
+  'ALL': 'All time'
+};
+
+/**
+ * First day of a period ending on `endDate`; null for ALL
+ */
+export function getPeriodStartDate(endDate: string, period: TimePeriod): string | null {
+  const end = parseISO(endDate);
+  const start = {
+    '1M': () => subMonths(end, 1),
+    '3M': () => subMonths(end, 3),
+    '6M': () => subMonths(end, 6),
+    'YTD': () => startOfYear(end),
+    '1Y': () => subYears(end, 1),
+    '2Y': () => subYears(end, 2),
+    '3Y': () => subYears(end, 3),
+    '5Y': () => subYears(end, 5),
+    'ALL': () => null
+  }[period]();
+  return start ? format(start, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Date the period is measured from: the last recorded date on or before its start,
+ * so returns have a starting value. Falls back to the first date when the history is shorter.
+ */
+export function getPeriodBaseDate(dates: string[], endDate: string, period: TimePeriod): string | undefined {
+  const sorted = dates.filter(date => date <= endDate).sort();
+  const start = getPeriodStartDate(endDate, period);
+  if (start === null) return sorted[0];
+  return [...sorted].reverse().find(date => date <= start) ?? sorted[0];
+}
+
+/**
+ * Entries within a period ending on `endDate` (default: the last entry's date), including the base date
+ */
+export function filterEntriesByPeriod(entries: AssetEntry[], period: TimePeriod, endDate?: string): AssetEntry[] {
+  if (entries.length === 0) return entries;
+  const end = endDate ?? entries.reduce((latest, entry) => entry.date > latest ? entry.date : latest, entries[0].date);
+  const baseDate = getPeriodBaseDate(entries.map(entry => entry.date), end, period);
+  return entries.filter(entry => baseDate !== undefined && entry.date >= baseDate && entry.date <= end);
+}
@@ -0,0 +1,65 @@
+import { differenceInDays, parseISO } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { calculateXIRR, type CashFlow } from './xirr';
+
+// Net present value of the flows at an annual rate in percent, discounted to the first date
+const npv = (flows: CashFlow[], ratePercent: number) =>
+  flows.reduce((sum, flow) => {
+    const years = differenceInDays(parseISO(flow.date), parseISO(flows[0].date)) / 365;
+    return sum + flow.amount / Math.pow(1 + ratePercent / 100, years);
+  }, 0);
+
+describe('calculateXIRR', () => {
+  it('finds the rate of a one-year investment', () => {
+    const result = calculateXIRR([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1100 }
+    ]);
+    expect(result.converged).toBe(true);
+    expect(result.method).toBe('newton');
+    expect(result.rate).toBeCloseTo(10, 6);
+  });
+
+  it('balances irregularly dated flows', () => {
+    const flows = [
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-04-15', amount: -500 },
+      { date: '2023-09-03', amount: 200 },
+      { date: '2024-02-20', amount: 1450 }
+    ];
+    const result = calculateXIRR(flows);
+    expect(result.converged).toBe(true);
+    expect(result.rate).toBeGreaterThan(0);
+    expect(Math.abs(npv(flows, result.rate!))).toBeLessThan(1e-4);
+  });
+
+  it('reports a status instead of a rate when no money goes in', () => {
+    const result = calculateXIRR([
+      { date: '2023-01-01', amount: 1000 },
+      { date: '2024-01-01', amount: 1100 }
+    ]);
+    expect(result).toMatchObject({ rate: null, converged: false, method: 'none' });
+    expect(result.message).toBe('Cash flows need both money in and money out');
+  });
+
+  it('falls back to bisection when Newton leaves the valid range', () => {
+    // Nearly everything lost: Newton's first step from 10% jumps below -100%
+    const flows = [
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1 }
+    ];
+    const result = calculateXIRR(flows);
+    expect(result.converged).toBe(true);
+    expect(result.method).toBe('bisection');
+    expect(result.rate).toBeCloseTo(-99.9, 4);
+  });
+
+  it('reports when no rate balances the flows', () => {
+    // A 400% gain in ten days annualizes past the search limit
+    const result = calculateXIRR([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-01-11', amount: 5000 }
+    ]);
+    expect(result).toMatchObject({ rate: null, converged: false, method: 'bisection' });
+  });
+});
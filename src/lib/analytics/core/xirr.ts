@@ -0,0 +1,145 @@
+import type { TimeSeriesPoint } from '../types/metrics';
+import { differenceInDays, parseISO } from 'date-fns';
+
+// Dated cash flow from the investor's point of view: money in is negative, money out is positive
+export interface CashFlow {
+  date: string;  // YYYY-MM-DD format
+  amount: number;
+}
+
+export interface XIRRResult {
+  rate: number | null;  // annualized percentage, null when no rate could be found
+  converged: boolean;
+  method: 'newton' | 'bisection' | 'none';
+  iterations: number;
+  message?: string;
+}
+
+const MAX_NEWTON_ITERATIONS = 50;
+const MAX_BISECTION_ITERATIONS = 200;
+const RATE_TOLERANCE = 1e-9;
+const NPV_TOLERANCE = 1e-7;  // relative to the total size of the cash flows
+
+// Rates are searched in (-100%, +1,000,000%) per year
+const MIN_RATE = -0.999999;
+const MAX_RATE = 10000;
+
+/**
+ * Build XIRR cash flows from a value series.
+ * The starting value is the initial investment, each later contribution is invested
+ * on its own date, and the ending value is what the investor would receive.
+ * The first point's contributions are already part of its value.
+ */
+export function buildMoneyWeightedCashFlows(timeSeriesData: TimeSeriesPoint[]): CashFlow[] {
+  if (timeSeriesData.length < 2) return [];
+
+  const first = timeSeriesData[0];
+  const last = timeSeriesData[timeSeriesData.length - 1];
+  const cashFlows: CashFlow[] = [{ date: first.date, amount: -first.value }];
+
+  for (let i = 1; i < timeSeriesData.length; i++) {
+    const contributions = timeSeriesData[i].contributions || 0;
+    if (contributions !== 0) {
+      cashFlows.push({ date: timeSeriesData[i].date, amount: -contributions });
+    }
+  }
+
+  cashFlows.push({ date: last.date, amount: last.value });
+  return cashFlows;
+}
+
+/**
+ * Annualized internal rate of return for irregularly dated cash flows.
+ * Newton's method is tried first; if it diverges or leaves the valid range,
+ * bisection over a bracketed sign change is used instead.
+ */
+export function calculateXIRR(cashFlows: CashFlow[], guess: number = 0.1): XIRRResult {
+  const flows = cashFlows.filter(flow => flow.amount !== 0 && isFinite(flow.amount));
+
+  if (flows.length < 2) {
+    return notConverged('At least two non-zero cash flows are needed');
+  }
+
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) {
+    return notConverged('Cash flows need both money in and money out');
+  }
+
+  const firstDate = parseISO(flows.reduce((earliest, flow) => flow.date < earliest ? flow.date : earliest, flows[0].date));
+  const years = flows.map(flow => differenceInDays(parseISO(flow.date), firstDate) / 365);
+
+  if (Math.max(...years) <= 0) {
+    return notConverged('Cash flows must span more than one day');
+  }
+
+  const scale = flows.reduce((sum, flow) => sum + Math.abs(flow.amount), 0);
+  const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+  const npvDerivative = (rate: number) => flows.reduce(
+    (sum, flow, i) => sum - years[i] * flow.amount / Math.pow(1 + rate, years[i] + 1),
+    0
+  );
+
+  // Newton's method
+  let rate = guess;
+  for (let iteration = 1; iteration <= MAX_NEWTON_ITERATIONS; iteration++) {
+    const value = npv(rate);
+    const derivative = npvDerivative(rate);
+
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+
+    const nextRate = rate - value / derivative;
+    if (!isFinite(nextRate) || nextRate <= MIN_RATE || nextRate > MAX_RATE) break;
+
+    if (Math.abs(nextRate - rate) < RATE_TOLERANCE && Math.abs(npv(nextRate)) / scale < NPV_TOLERANCE) {
+      return { rate: nextRate * 100, converged: true, method: 'newton', iterations: iteration };
+    }
+    rate = nextRate;
+  }
+
+  return bisect(npv, scale);
+}
+
+/**
+ * Bisection fallback: bracket a sign change, then halve the interval
+ */
+function bisect(npv: (rate: number) => number, scale: number): XIRRResult {
+  let low = MIN_RATE;
+  let high = 1;
+  let lowValue = npv(low);
+  let highValue = npv(high);
+
+  // Widen the upper bound until the NPV changes sign
+  while (Math.sign(lowValue) === Math.sign(highValue) && high < MAX_RATE) {
+    high *= 2;
+    highValue = npv(high);
+  }
+
+  if (!isFinite(lowValue) || !isFinite(highValue) || Math.sign(lowValue) === Math.sign(highValue)) {
+    return notConverged('No rate between -100% and the search limit makes the cash flows balance', 'bisection');
+  }
+
+  for (let iteration = 1; iteration <= MAX_BISECTION_ITERATIONS; iteration++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+
+    if (Math.abs(midValue) / scale < NPV_TOLERANCE || (high - low) / 2 < RATE_TOLERANCE) {
+      return { rate: mid * 100, converged: true, method: 'bisection', iterations: iteration };
+    }
+
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+
+  return notConverged('Bisection did not converge within the iteration limit', 'bisection', MAX_BISECTION_ITERATIONS);
+}
+
+function notConverged(
+  message: string,
+  method: XIRRResult['method'] = 'none',
+  iterations: number = 0
+): XIRRResult {
+  return { rate: null, converged: false, method, iterations, message };
+}
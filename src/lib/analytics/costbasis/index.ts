@@ -0,0 +1,211 @@
+import type { AssetEntry, CostBasisMethod } from '../../db';
+import type { CostBasisSummary, HoldingTerm, PlatformCostBasis, RealizedLot, TaxLot } from '../types/metrics';
+import { addYears, parseISO } from 'date-fns';
+
+// Lots smaller than this many units are treated as fully sold
+const UNIT_EPSILON = 1e-9;
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'First in, first out',
+  specific: 'Specific lots',
+  average: 'Average cost'
+};
+
+// Open lot while the history is replayed; value and term are added at the end
+type OpenLot = Pick<TaxLot, 'id' | 'openDate' | 'units' | 'costBasis' | 'assumed'>;
+
+/**
+ * Long-term once held for more than a year
+ */
+export function getHoldingTerm(openDate: string, onDate: string): HoldingTerm {
+  return parseISO(onDate) > addYears(parseISO(openDate), 1) ? 'long' : 'short';
+}
+
+/**
+ * Order in which a withdrawal sells lots. Specific-ID sells the lots named on the
+ * entry first, then the highest cost per unit, which keeps the taxable gain lowest.
+ */
+function orderLotsForSale(lots: OpenLot[], method: CostBasisMethod, selected: string[] = []): OpenLot[] {
+  if (method !== 'specific') return lots;
+  const named = selected
+    .map(id => lots.find(lot => lot.id === id))
+    .filter((lot): lot is OpenLot => lot !== undefined);
+  const rest = lots
+    .filter(lot => !named.includes(lot))
+    .sort((a, b) => b.costBasis / b.units - a.costBasis / a.units);
+  return [...named, ...rest];
+}
+
+/**
+ * Replay one platform's history as a fund: money in buys units at the unit price of the day,
+ * money out sells them. Contributions, incoming transfers and reinvested dividends or interest
+ * (taxed when paid) open lots at their amount; withdrawals and outgoing transfers close them by
+ * `method`. A balance that appears without a recorded contribution, like the first snapshot,
+ * opens a lot at its value, marked `assumed`.
+ */
+export function calculatePlatformCostBasis(
+  entries: AssetEntry[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+  asOf?: string
+): PlatformCostBasis | null {
+  const history = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = history[history.length - 1];
+  if (!latest) return null;
+  const endDate = asOf || latest.date;
+
+  let lots: OpenLot[] = [];
+  const realized: RealizedLot[] = [];
+  const totalUnits = () => lots.reduce((sum, lot) => sum + lot.units, 0);
+
+  const sell = (lot: OpenLot, units: number, price: number, date: string) => {
+    const share = Math.min(1, units / lot.units);
+    const costBasis = lot.costBasis * share;
+    const proceeds = units * price;
+    realized.push({
+      platform: latest.platform,
+      lotId: lot.id,
+      openDate: lot.openDate,
+      closeDate: date,
+      proceeds,
+      costBasis,
+      gain: proceeds - costBasis,
+      term: getHoldingTerm(lot.openDate, date)
+    });
+    lot.units -= units;
+    lot.costBasis -= costBasis;
+  };
+
+  const open = (date: string, units: number, costBasis: number, assumed?: boolean) => {
+    const existing = lots.find(lot => lot.id === date);
+    if (existing) {
+      existing.units += units;
+      existing.costBasis += costBasis;
+      existing.assumed = existing.assumed || assumed;
+    } else {
+      lots.push({ id: date, openDate: date, units, costBasis, assumed });
+    }
+  };
+
+  for (const entry of history) {
+    const flow = entry.contributionAmount || 0;
+    const income = Math.max(0, entry.incomeAmount || 0);
+    const purchase = Math.max(0, flow) + income;
+    const sale = Math.max(0, -flow);
+    const valueBefore = entry.amount - flow - income;
+    let units = totalUnits();
+    let price = 1;
+
+    if (units > UNIT_EPSILON && valueBefore > 0) {
+      price = valueBefore / units;
+    } else if (units > UNIT_EPSILON) {
+      // Nothing left before today's flows: the remaining lots were lost
+      lots.forEach(lot => sell(lot, lot.units, 0, entry.date));
+      lots = [];
+      units = 0;
+    } else if (valueBefore > 0) {
+      open(entry.date, valueBefore, valueBefore, true);
+      units = valueBefore;
+    }
+
+    if (sale > 0 && units > UNIT_EPSILON) {
+      let remaining = Math.min(sale / price, units);
+      if (method === 'average') {
+        // Pooled cost: every lot carries the average cost per unit and sells in proportion
+        const averageCost = lots.reduce((sum, lot) => sum + lot.costBasis, 0) / units;
+        const share = remaining / units;
+        for (const lot of lots) {
+          lot.costBasis = lot.units * averageCost;
+          sell(lot, lot.units * share, price, entry.date);
+        }
+      } else {
+        for (const lot of orderLotsForSale(lots, method, entry.closesLots)) {
+          if (remaining <= UNIT_EPSILON) break;
+          const sold = Math.min(lot.units, remaining);
+          sell(lot, sold, price, entry.date);
+          remaining -= sold;
+        }
+      }
+      lots = lots.filter(lot => lot.units > UNIT_EPSILON);
+    }
+
+    if (purchase > 0) {
+      open(entry.date, purchase / price, purchase);
+    }
+  }
+
+  const units = totalUnits();
+  const value = latest.amount;
+  const unitPrice = units > UNIT_EPSILON ? value / units : 0;
+  const openLots: TaxLot[] = lots
+    .sort((a, b) => a.openDate.localeCompare(b.openDate))
+    .map(lot => {
+      const lotValue = lot.units * unitPrice;
+      return {
+        ...lot,
+        platform: latest.platform,
+        value: lotValue,
+        unrealizedGain: lotValue - lot.costBasis,
+        term: getHoldingTerm(lot.openDate, endDate)
+      };
+    });
+
+  const sumGains = (term: HoldingTerm) => openLots
+    .filter(lot => lot.term === term)
+    .reduce((sum, lot) => sum + lot.unrealizedGain, 0);
+  const costBasis = openLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+  return {
+    platform: latest.platform,
+    method,
+    value: openLots.length > 0 ? value : 0,
+    costBasis,
+    unrealizedGain: openLots.reduce((sum, lot) => sum + lot.unrealizedGain, 0),
+    shortTermGain: sumGains('short'),
+    longTermGain: sumGains('long'),
+    realizedGain: realized.reduce((sum, lot) => sum + lot.gain, 0),
+    lots: openLots,
+    realized,
+    hasAssumedBasis: openLots.some(lot => lot.assumed)
+  };
+}
+
+/**
+ * Cost basis of every platform in `history` (entries up to `asOf`, in one currency).
+ * Platforms that ever had a negative balance are debts and have no cost basis.
+ */
+export function calculateCostBasis(
+  history: AssetEntry[],
+  methods: Record<string, CostBasisMethod> = {},
+  asOf?: string
+): CostBasisSummary {
+  const endDate = asOf || history.reduce((last, entry) => entry.date > last ? entry.date : last, '');
+  const byPlatform = new Map<string, AssetEntry[]>();
+  for (const entry of history) {
+    if (entry.date > endDate) continue;
+    byPlatform.set(entry.platform, [...(byPlatform.get(entry.platform) || []), entry]);
+  }
+
+  const platforms = [...byPlatform.entries()]
+    .filter(([, entries]) => entries.every(entry => entry.amount >= 0))
+    .map(([platform, entries]) => calculatePlatformCostBasis(entries, methods[platform], endDate))
+    .filter((result): result is PlatformCostBasis => result !== null)
+    .sort((a, b) => b.value - a.value);
+
+  const sum = (pick: (platform: PlatformCostBasis) => number) =>
+    platforms.reduce((total, platform) => total + pick(platform), 0);
+
+  return {
+    asOf: endDate,
+    platforms,
+    totals: {
+      value: sum(platform => platform.value),
+      costBasis: sum(platform => platform.costBasis),
+      unrealizedGain: sum(platform => platform.unrealizedGain),
+      shortTermGain: sum(platform => platform.shortTermGain),
+      longTermGain: sum(platform => platform.longTermGain),
+      realizedGain: sum(platform => platform.realizedGain)
+    }
+  };
+}
@@ -0,0 +1,215 @@
+import type { AssetEntry, FxRate } from '../../db';
+import { DEFAULT_CURRENCY } from '../../utils/calculations';
+
+// Rates for one direction of a currency pair, sorted by date
+type RatePoints = { date: string; rate: number }[];
+
+// Lookup table keyed by "FROM/TO"
+export type FxTable = Map<string, RatePoints>;
+
+/**
+ * Entry with amounts converted into the base currency.
+ * `currency` stays the holding's own currency; the native amounts are kept for display and editing.
+ */
+export interface ConvertedEntry extends AssetEntry {
+  nativeAmount: number;
+  nativeContributionAmount?: number;
+  nativeIncomeAmount?: number;
+  fxRate: number;  // native → base rate used for this entry's date
+}
+
+export interface CurrencyConversionResult {
+  entries: ConvertedEntry[];
+  missingRates: string[];  // "FROM/TO" pairs with no usable rate; those amounts are left unconverted
+}
+
+// Split of a period's base-currency change into asset and currency parts
+export interface CurrencyAttribution {
+  assetEffect: number;     // change in native value, valued at the earlier rate
+  currencyEffect: number;  // revaluation of the current native value by the rate move
+  byCurrency: Record<string, { assetEffect: number; currencyEffect: number }>;
+  byPlatform: Record<string, { assetEffect: number; currencyEffect: number }>;
+}
+
+export function getEntryCurrency(entry: AssetEntry): string {
+  return entry.currency || DEFAULT_CURRENCY;
+}
+
+export function buildFxTable(rates: FxRate[]): FxTable {
+  const table: FxTable = new Map();
+
+  for (const { from, to, date, rate } of rates) {
+    if (!(rate > 0)) continue;
+    const key = `${from}/${to}`;
+    const points = table.get(key) || [];
+    points.push({ date, rate });
+    table.set(key, points);
+  }
+
+  table.forEach(points => points.sort((a, b) => a.date.localeCompare(b.date)));
+  return table;
+}
+
+/**
+ * Rate to convert `from` into `to` on a date.
+ * Uses the direct pair, its inverse, or one intermediate currency, carrying the last
+ * known rate forward (and the first rate back for dates before a series starts).
+ */
+export function getFxRate(table: FxTable, from: string, to: string, date: string): number | undefined {
+  if (from === to) return 1;
+
+  const direct = getPairRate(table, from, to, date);
+  if (direct !== undefined) return direct;
+
+  // Triangulate through any currency quoted against both sides
+  const currencies = new Set<string>();
+  table.forEach((_, key) => key.split('/').forEach(code => currencies.add(code)));
+
+  for (const via of currencies) {
+    if (via === from || via === to) continue;
+    const first = getPairRate(table, from, via, date);
+    const second = first !== undefined ? getPairRate(table, via, to, date) : undefined;
+    if (first !== undefined && second !== undefined) return first * second;
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert amounts and contributions into the base currency at each entry's date
+ */
+export function convertEntries(entries: AssetEntry[], baseCurrency: string, table: FxTable): CurrencyConversionResult {
+  const missing = new Set<string>();
+
+  const converted = entries.map(entry => {
+    const currency = getEntryCurrency(entry);
+    let fxRate = getFxRate(table, currency, baseCurrency, entry.date);
+    if (fxRate === undefined) {
+      missing.add(`${currency}/${baseCurrency}`);
+      fxRate = 1;
+    }
+
+    return {
+      ...entry,
+      amount: entry.amount * fxRate,
+      contributionAmount: entry.contributionAmount !== undefined ? entry.contributionAmount * fxRate : undefined,
+      incomeAmount: entry.incomeAmount !== undefined ? entry.incomeAmount * fxRate : undefined,
+      nativeAmount: entry.amount,
+      nativeContributionAmount: entry.contributionAmount,
+      nativeIncomeAmount: entry.incomeAmount,
+      fxRate
+    };
+  });
+
+  return { entries: converted, missingRates: [...missing].sort() };
+}
+
+/**
+ * Strip conversion fields so an entry can be edited and saved in its own currency
+ */
+export function toNativeEntry(entry: AssetEntry): AssetEntry {
+  if (!isConvertedEntry(entry)) return entry;
+
+  const { nativeAmount, nativeContributionAmount, nativeIncomeAmount, fxRate, ...rest } = entry;
+  return { ...rest, amount: nativeAmount, contributionAmount: nativeContributionAmount, incomeAmount: nativeIncomeAmount };
+}
+
+export function isConvertedEntry(entry: AssetEntry): entry is ConvertedEntry {
+  return 'fxRate' in entry && 'nativeAmount' in entry;
+}
+
+/**
+ * How much of the change between two dates came from the holdings themselves and how much
+ * from exchange rates. Per platform: asset effect = (A1 − A0) × r0, currency effect = A1 × (r1 − r0),
+ * which together equal the base-currency change A1·r1 − A0·r0.
+ * Returns undefined when every holding is already in the base currency.
+ */
+export function calculateCurrencyAttribution(
+  entries: ConvertedEntry[],
+  previousEntries: ConvertedEntry[],
+  baseCurrency: string
+): CurrencyAttribution | undefined {
+  if (!entries.some(entry => getEntryCurrency(entry) !== baseCurrency) &&
+      !previousEntries.some(entry => getEntryCurrency(entry) !== baseCurrency)) {
+    return undefined;
+  }
+
+  const previousByPlatform = new Map(previousEntries.map(entry => [entry.platform, entry]));
+  const currentPlatforms = new Set(entries.map(entry => entry.platform));
+  const byCurrency: CurrencyAttribution['byCurrency'] = {};
+  const byPlatform: CurrencyAttribution['byPlatform'] = {};
+
+  const add = (platform: string, currency: string, assetEffect: number, currencyEffect: number) => {
+    const totals = byCurrency[currency] || { assetEffect: 0, currencyEffect: 0 };
+    totals.assetEffect += assetEffect;
+    totals.currencyEffect += currencyEffect;
+    byCurrency[currency] = totals;
+    byPlatform[platform] = { assetEffect, currencyEffect };
+  };
+
+  for (const entry of entries) {
+    const previous = previousByPlatform.get(entry.platform);
+    const currency = getEntryCurrency(entry);
+
+    if (!previous || getEntryCurrency(previous) !== currency) {
+      // New holding (or a currency switch): the whole value counts as an asset change
+      add(entry.platform, currency, entry.amount - (previous?.amount || 0), 0);
+      continue;
+    }
+
+    add(
+      entry.platform,
+      currency,
+      (entry.nativeAmount - previous.nativeAmount) * previous.fxRate,
+      entry.nativeAmount * (entry.fxRate - previous.fxRate)
+    );
+  }
+
+  // Holdings that were closed out
+  for (const previous of previousEntries) {
+    if (!currentPlatforms.has(previous.platform)) {
+      add(previous.platform, getEntryCurrency(previous), -previous.amount, 0);
+    }
+  }
+
+  const totals = Object.values(byCurrency);
+  return {
+    assetEffect: totals.reduce((sum, item) => sum + item.assetEffect, 0),
+    currencyEffect: totals.reduce((sum, item) => sum + item.currencyEffect, 0),
+    byCurrency,
+    byPlatform
+  };
+}
+
+function getPairRate(table: FxTable, from: string, to: string, date: string): number | undefined {
+  const direct = table.get(`${from}/${to}`);
+  if (direct) return getRateAt(direct, date);
+
+  const inverse = table.get(`${to}/${from}`);
+  if (inverse) {
+    const rate = getRateAt(inverse, date);
+    return rate !== undefined ? 1 / rate : undefined;
+  }
+
+  return undefined;
+}
+
+function getRateAt(points: RatePoints, date: string): number | undefined {
+  if (points.length === 0) return undefined;
+
+  let low = 0;
+  let high = points.length - 1;
+  let found = points[0].rate;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].date <= date) {
+      found = points[mid].rate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,228 @@
+import type { AssetEntry, Goal } from '../../db';
+import type { GoalMetrics, TimeSeriesPoint } from '../types/metrics';
+import {
+  createTimeSeriesFromEntries,
+  calculateTimeWeightedReturn,
+  calculateCAGR
+} from '../core/performance';
+import { addMonths, differenceInCalendarMonths, differenceInDays, format, parseISO } from 'date-fns';
+
+// Projections stop after this many months (50 years) to avoid endless loops on flat portfolios
+const MAX_PROJECTION_MONTHS = 600;
+
+// Histories shorter than this produce unreliable annualized rates
+const MIN_HISTORY_DAYS = 180;
+
+/**
+ * Calculate progress metrics for every goal
+ */
+export function calculateAllGoalMetrics(
+  goals: Goal[],
+  entries: AssetEntry[],
+  platformTags: Record<string, string>,
+  asOfDate?: string
+): GoalMetrics[] {
+  return goals.map(goal => calculateGoalMetrics(goal, entries, platformTags, asOfDate));
+}
+
+/**
+ * Project when a goal will be reached from historical growth and contribution cadence
+ */
+export function calculateGoalMetrics(
+  goal: Goal,
+  entries: AssetEntry[],
+  platformTags: Record<string, string>,
+  asOfDate?: string
+): GoalMetrics {
+  const scopedEntries = filterEntriesForGoal(goal, entries, platformTags)
+    .filter(entry => !asOfDate || entry.date <= asOfDate);
+  const timeSeriesData = createTimeSeriesFromEntries(scopedEntries);
+
+  const lastPoint = timeSeriesData[timeSeriesData.length - 1];
+  const currentValue = lastPoint ? lastPoint.value : 0;
+  const currentDate = lastPoint ? lastPoint.date : (asOfDate || format(new Date(), 'yyyy-MM-dd'));
+
+  const { annualGrowthRate, growthSource } = estimateAnnualGrowthRate(timeSeriesData, scopedEntries);
+  const monthlyContribution = estimateMonthlyContribution(timeSeriesData, growthSource);
+  const monthlyRate = Math.pow(1 + annualGrowthRate / 100, 1 / 12) - 1;
+
+  const projectedCompletion = projectCompletionDate(
+    currentValue,
+    goal.targetAmount,
+    currentDate,
+    monthlyRate,
+    monthlyContribution
+  );
+
+  const monthsRemaining = differenceInCalendarMonths(parseISO(goal.targetDate), parseISO(currentDate));
+  const requiredMonthlyContribution = calculateRequiredMonthlyContribution(
+    currentValue,
+    goal.targetAmount,
+    monthsRemaining,
+    monthlyRate
+  );
+
+  return {
+    goalId: goal.id,
+    goalName: goal.name,
+    targetAmount: goal.targetAmount,
+    targetDate: goal.targetDate,
+    currentProgress: goal.targetAmount > 0
+      ? Math.max(0, Math.min(1, currentValue / goal.targetAmount))
+      : 0,
+    projectedCompletion,
+    onTrack: !!projectedCompletion && projectedCompletion <= goal.targetDate,
+    requiredMonthlyContribution,
+    currentValue,
+    annualGrowthRate,
+    monthlyContribution,
+    growthSource
+  };
+}
+
+/**
+ * Restrict entries to the platforms or tags a goal targets
+ */
+export function filterEntriesForGoal(
+  goal: Goal,
+  entries: AssetEntry[],
+  platformTags: Record<string, string>
+): AssetEntry[] {
+  if (goal.scope === 'portfolio' || goal.scopeValues.length === 0) {
+    return entries;
+  }
+
+  const values = new Set(goal.scopeValues);
+
+  if (goal.scope === 'platforms') {
+    return entries.filter(entry => values.has(entry.platform));
+  }
+
+  return entries.filter(entry => {
+    const tag = platformTags[entry.platform];
+    return !!tag && values.has(tag);
+  });
+}
+
+/**
+ * Pick the most trustworthy annual growth rate for the goal's history.
+ * With contribution data we annualize TWR so new money isn't counted as growth;
+ * snapshot-only data falls back to CAGR, which already includes contributions.
+ */
+function estimateAnnualGrowthRate(
+  timeSeriesData: TimeSeriesPoint[],
+  entries: AssetEntry[]
+): { annualGrowthRate: number; growthSource: 'twr' | 'cagr' | 'expected_rate' } {
+  const expectedRate = calculateExpectedRate(entries);
+
+  if (timeSeriesData.length < 2) {
+    return { annualGrowthRate: expectedRate, growthSource: 'expected_rate' };
+  }
+
+  const days = differenceInDays(
+    parseISO(timeSeriesData[timeSeriesData.length - 1].date),
+    parseISO(timeSeriesData[0].date)
+  );
+
+  if (days < MIN_HISTORY_DAYS) {
+    return { annualGrowthRate: expectedRate, growthSource: 'expected_rate' };
+  }
+
+  const hasContributionData = timeSeriesData.some(point => (point.contributions || 0) !== 0);
+
+  if (hasContributionData) {
+    const years = days / 365.25;
+    const twr = calculateTimeWeightedReturn(timeSeriesData) / 100;
+    if (twr > -1) {
+      return {
+        annualGrowthRate: (Math.pow(1 + twr, 1 / years) - 1) * 100,
+        growthSource: 'twr'
+      };
+    }
+  }
+
+  return { annualGrowthRate: calculateCAGR(timeSeriesData), growthSource: 'cagr' };
+}
+
+/**
+ * Average net contribution per month over the recorded history
+ */
+function estimateMonthlyContribution(
+  timeSeriesData: TimeSeriesPoint[],
+  growthSource: 'twr' | 'cagr' | 'expected_rate'
+): number {
+  // CAGR already folds contributions into growth, so adding them again would double count
+  if (growthSource === 'cagr' || timeSeriesData.length < 2) return 0;
+
+  const months = differenceInCalendarMonths(
+    parseISO(timeSeriesData[timeSeriesData.length - 1].date),
+    parseISO(timeSeriesData[0].date)
+  );
+  if (months <= 0) return 0;
+
+  // The first point's contributions are already part of its starting value
+  const netContributions = timeSeriesData
+    .slice(1)
+    .reduce((sum, point) => sum + (point.contributions || 0), 0);
+
+  return netContributions / months;
+}
+
+/**
+ * Value-weighted expected rate from the latest snapshot (the `rate` field)
+ */
+function calculateExpectedRate(entries: AssetEntry[]): number {
+  if (entries.length === 0) return 0;
+
+  const latestDate = entries.reduce((latest, entry) => entry.date > latest ? entry.date : latest, '');
+  const latestEntries = entries.filter(entry => entry.date === latestDate);
+  const total = latestEntries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  if (total <= 0) return 0;
+
+  return latestEntries.reduce((sum, entry) => sum + entry.amount * entry.rate, 0) / total;
+}
+
+/**
+ * Step forward month by month until the target is reached
+ */
+function projectCompletionDate(
+  currentValue: number,
+  targetAmount: number,
+  currentDate: string,
+  monthlyRate: number,
+  monthlyContribution: number
+): string | undefined {
+  if (currentValue >= targetAmount) return currentDate;
+
+  let value = currentValue;
+  for (let month = 1; month <= MAX_PROJECTION_MONTHS; month++) {
+    value = value * (1 + monthlyRate) + monthlyContribution;
+    if (value >= targetAmount) {
+      return format(addMonths(parseISO(currentDate), month), 'yyyy-MM-dd');
+    }
+  }
+
+  return undefined; // Not reachable at the current pace
+}
+
+/**
+ * Monthly payment that closes the gap by the target date (future value of an annuity)
+ */
+function calculateRequiredMonthlyContribution(
+  currentValue: number,
+  targetAmount: number,
+  months: number,
+  monthlyRate: number
+): number {
+  if (currentValue >= targetAmount) return 0;
+
+  // Target date has passed: the whole gap is needed now
+  if (months <= 0) return targetAmount - currentValue;
+
+  const growthFactor = Math.pow(1 + monthlyRate, months);
+  const futureValueOfCurrent = currentValue * growthFactor;
+  const annuityFactor = Math.abs(monthlyRate) < 1e-9 ? months : (growthFactor - 1) / monthlyRate;
+
+  return Math.max(0, (targetAmount - futureValueOfCurrent) / annuityFactor);
+}
@@ -2,7 +2,21 @@
 
 export * from './types/metrics';
 export * from './core/performance';
+export * from './core/xirr';
+export * from './core/periods';
 export * from './risk';
+export * from './goals';
+export * from './rebalancing';
+export * from './projection';
+export * from './stress';
+export * from './insights';
+export * from './positions';
+export * from './costbasis';
+export * from './tax';
+export * from './location';
+export * from './liabilities';
+export * from './benchmark';
+export * from './currency';
 
 // Re-export common functions for backward compatibility
 export { 
@@ -11,35 +25,132 @@ export {
   calculateEnhancedMetrics
 } from './core/performance';
 
-import type { AssetEntry } from '../db';
-import type { EnhancedAssetSummary, TimeSeriesPoint } from './types/metrics';
+import type { AccountType, AssetEntry, BenchmarkPoint } from '../db';
+import type { EnhancedAssetSummary, PerformanceMetrics, TimePeriod, TimeSeriesPoint } from './types/metrics';
 import { calculateSummary } from '../utils/calculations';
-import { calculatePerformanceMetrics, calculateCashFlowMetrics } from './core/performance';
+import {
+  calculatePerformanceMetrics,
+  calculateCashFlowMetrics,
+  calculatePeriodCashFlows,
+  calculatePeriodComparison,
+  createTimeSeriesFromEntries
+} from './core/performance';
+import { filterEntriesByPeriod } from './core/periods';
 import { calculateSmartRiskAnalysis } from './risk';
+import { generateInsights } from './insights';
+import { attachBenchmarkToSeries, calculateBenchmarkMetrics } from './benchmark';
+import { calculateCurrencyAttribution, getEntryCurrency, isConvertedEntry, type ConvertedEntry } from './currency';
+
+// Benchmark series and assignments used for relative metrics
+export interface BenchmarkContext {
+  series: Record<string, BenchmarkPoint[]>;      // benchmark name → points
+  platformBenchmarks: Record<string, string>;    // platform → benchmark name
+  portfolioBenchmark?: string;                   // benchmark for the whole portfolio
+}
 
 /**
- * Enhanced analytics that includes performance metrics, risk analysis, and portfolio insights
+ * Enhanced analytics that includes performance metrics, risk analysis, and portfolio insights.
+ * `historyEntries` (every entry up to the selected date) lets returns be measured over time,
+ * both for the whole portfolio and per platform.
+ * Entries are expected in `baseCurrency` already (see `convertEntries`); when they carry
+ * their native amounts, the period change is split into asset and currency effects.
+ * `platformPortfolios` (platform → portfolio name) is given for the household view, which
+ * combines several portfolios; totals are then also broken down per portfolio.
+ * Returns, volatility, drawdown and cash flows cover `period` up to the selected date;
+ * `periodComparison` has them for every standard period.
+ * `insights` are the findings of the insight rules, which also use `platformTags`.
+ * `platformAccountTypes` (platform → account type) is copied onto each platform's data.
  */
 export function calculateEnhancedAnalytics(
   entries: AssetEntry[], 
-  previousEntries?: AssetEntry[]
+  previousEntries?: AssetEntry[],
+  historyEntries?: AssetEntry[],
+  benchmarkContext?: BenchmarkContext,
+  baseCurrency?: string,
+  platformPortfolios?: Record<string, string>,
+  period: TimePeriod = 'ALL',
+  platformTags: Record<string, string> = {},
+  platformAccountTypes: Record<string, AccountType> = {}
 ): EnhancedAssetSummary {
-  const basicSummary = calculateSummary(entries, previousEntries || []);
+  const basicSummary = calculateSummary(entries, previousEntries || [], historyEntries);
+  const endDate = entries[0]?.date;
+  const performanceEntries = filterEntriesByPeriod(
+    historyEntries && historyEntries.length > 0 ? historyEntries : entries,
+    period,
+    endDate
+  );
   
   // Calculate performance metrics if we have historical data
-  const performanceMetrics = entries.length >= 2 ? calculatePerformanceMetrics(entries) : undefined;
+  const performanceMetrics = performanceEntries.length >= 2
+    ? withBenchmarkMetrics(calculatePerformanceMetrics(performanceEntries), performanceEntries, benchmarkContext?.portfolioBenchmark, benchmarkContext)
+    : undefined;
+  
+  // Per-platform returns over the same history
+  const platformData: EnhancedAssetSummary['platformData'] = { ...basicSummary.platformData };
+  for (const [platform, accountType] of Object.entries(platformAccountTypes)) {
+    if (platformData[platform]) {
+      platformData[platform] = { ...platformData[platform], accountType };
+    }
+  }
+  if (historyEntries) {
+    for (const platform of Object.keys(platformData)) {
+      const platformHistory = performanceEntries.filter(entry => entry.platform === platform);
+      const benchmark = benchmarkContext?.platformBenchmarks[platform];
+      platformData[platform] = { ...platformData[platform], benchmark };
+      if (platformHistory.length >= 2) {
+        platformData[platform].performance = withBenchmarkMetrics(
+          calculatePerformanceMetrics(platformHistory),
+          platformHistory,
+          benchmark,
+          benchmarkContext
+        );
+      }
+    }
+  }
   
-  // Calculate cash flow metrics
-  const cashFlowMetrics = entries.length >= 2 ? calculateCashFlowMetrics(entries) : undefined;
+  // Currency vs asset attribution for the comparison period
+  const currencyAttribution = baseCurrency && entries.every(isConvertedEntry) && (previousEntries || []).every(isConvertedEntry)
+    ? calculateCurrencyAttribution(entries as ConvertedEntry[], (previousEntries || []) as ConvertedEntry[], baseCurrency)
+    : undefined;
+  if (currencyAttribution) {
+    for (const entry of entries) {
+      const currency = getEntryCurrency(entry);
+      if (platformData[entry.platform] && currency !== baseCurrency) {
+        platformData[entry.platform] = {
+          ...platformData[entry.platform],
+          currency,
+          currencyEffect: currencyAttribution.byPlatform[entry.platform]?.currencyEffect
+        };
+      }
+    }
+  }
+  
+  // Cash flows within the period; without a history only the selected date's entries are known
+  const cashFlowMetrics = historyEntries && historyEntries.length > 0 && endDate
+    ? calculatePeriodCashFlows(historyEntries, period, endDate)
+    : entries.length >= 2 ? calculateCashFlowMetrics(entries) : undefined;
   
   // Calculate smart risk analysis (automatically detects data quality)
   const riskAnalysis = entries.length >= 2 ? calculateSmartRiskAnalysis(entries) : undefined;
   
-  return {
+  const summary: EnhancedAssetSummary = {
     ...basicSummary,
+    platformData,
     portfolioMetrics: performanceMetrics,
+    portfolioBenchmark: benchmarkContext?.portfolioBenchmark,
+    baseCurrency,
+    currencyAttribution: currencyAttribution && {
+      assetEffect: currencyAttribution.assetEffect,
+      currencyEffect: currencyAttribution.currencyEffect,
+      byCurrency: currencyAttribution.byCurrency
+    },
     cashFlowMetrics,
+    timePeriod: period,
+    periodComparison: historyEntries && endDate ? calculatePeriodComparison(historyEntries, endDate) : undefined,
     riskAnalysis, // Updated from riskMetrics to riskAnalysis
+    portfolioBreakdown: platformPortfolios
+      ? calculatePortfolioBreakdown(entries, previousEntries || [], historyEntries ? performanceEntries : [], platformPortfolios)
+      : undefined,
     diversificationMetrics: riskAnalysis?.diversificationMetrics ? {
       score: riskAnalysis.diversificationMetrics.score,
       platformCount: riskAnalysis.diversificationMetrics.platformCount,
@@ -47,4 +158,67 @@ export function calculateEnhancedAnalytics(
       largestPlatformWeight: riskAnalysis.diversificationMetrics.largestPlatformWeight
     } : undefined
   };
-} 
\ No newline at end of file
+  
+  if (endDate) {
+    summary.insights = generateInsights({
+      summary,
+      history: historyEntries && historyEntries.length > 0 ? historyEntries : entries,
+      platformTags,
+      selectedDate: endDate
+    });
+  }
+  
+  return summary;
+}
+
+/**
+ * Value, change and share of each portfolio in a combined (household) set of entries
+ */
+function calculatePortfolioBreakdown(
+  entries: AssetEntry[],
+  previousEntries: AssetEntry[],
+  historyEntries: AssetEntry[],
+  platformPortfolios: Record<string, string>
+): NonNullable<EnhancedAssetSummary['portfolioBreakdown']> {
+  const names = [...new Set(Object.values(platformPortfolios))];
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const inPortfolio = (name: string) => (entry: AssetEntry) => platformPortfolios[entry.platform] === name;
+  const sumOf = (list: AssetEntry[]) => list.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const breakdown: NonNullable<EnhancedAssetSummary['portfolioBreakdown']> = {};
+  for (const name of names) {
+    const value = sumOf(entries.filter(inPortfolio(name)));
+    const previousValue = sumOf(previousEntries.filter(inPortfolio(name)));
+    const history = historyEntries.filter(inPortfolio(name));
+    breakdown[name] = {
+      value,
+      previousValue,
+      absoluteChange: value - previousValue,
+      percentChange: previousValue > 0 ? ((value - previousValue) / previousValue) * 100 : 0,
+      share: total > 0 ? (value / total) * 100 : 0,
+      timeWeightedReturn: history.length >= 2 ? calculatePerformanceMetrics(history).timeWeightedReturn : undefined
+    };
+  }
+  return breakdown;
+}
+
+/**
+ * Add alpha/beta/tracking error against the named benchmark.
+ * Skipped for snapshot-only histories, where returns would include unknown contributions.
+ */
+function withBenchmarkMetrics<T extends PerformanceMetrics & { dataQualityInfo: { hasEnhancedData: boolean } }>(
+  metrics: T,
+  entries: AssetEntry[],
+  benchmarkName: string | undefined,
+  benchmarkContext: BenchmarkContext | undefined
+): T {
+  const points = benchmarkName ? benchmarkContext?.series[benchmarkName] : undefined;
+  if (!points || points.length === 0 || !metrics.dataQualityInfo.hasEnhancedData) {
+    return metrics;
+  }
+
+  const series = attachBenchmarkToSeries(createTimeSeriesFromEntries(entries), points);
+  const benchmarkMetrics = calculateBenchmarkMetrics(series);
+
+  return benchmarkMetrics ? { ...metrics, ...benchmarkMetrics } : metrics;
+}
@@ -0,0 +1,276 @@
+import type { AssetEntry } from '../../db';
+import type { EnhancedAssetSummary, InsightSeverity, PortfolioInsight } from '../types/metrics';
+import { calculatePerformanceMetrics, createTimeSeriesFromEntries } from '../core/performance';
+import { filterEntriesByPeriod } from '../core/periods';
+import { formatCurrency, formatPercentage } from '../../utils/calculations';
+import { differenceInDays, format, parseISO, subMonths } from 'date-fns';
+
+// What the rules look at: the summary for the selected date and the history up to it
+export interface InsightContext {
+  summary: EnhancedAssetSummary;
+  history: AssetEntry[];                  // every entry up to the selected date, in the base currency
+  platformTags: Record<string, string>;
+  selectedDate: string;
+}
+
+// What a rule reports; `subject` keeps separate findings of one rule apart (a platform, a date)
+export type InsightFinding = Omit<PortfolioInsight, 'id' | 'rule' | 'severity'> & { subject?: string };
+
+export interface InsightRule {
+  id: string;
+  severity: InsightSeverity | ((finding: InsightFinding) => InsightSeverity);
+  evaluate: (context: InsightContext) => InsightFinding | null;
+}
+
+// Single holding share above which the portfolio counts as concentrated
+const CONCENTRATION_THRESHOLD = 40;
+
+// Cash above this many months of average contributions is flagged as idle
+const CASH_RESERVE_MONTHS = 6;
+const CASH_TAGS = ['cash', 'savings', 'emergency fund'];
+
+// No contribution for this many months after a regular habit counts as a pause
+const CONTRIBUTION_PAUSE_MONTHS = 3;
+
+// Realized return this many percentage points below the expected rate is called out
+const RATE_SHORTFALL_POINTS = 5;
+
+// Fall from the all-time high (percent) that counts as a drawdown worth knowing about
+const DRAWDOWN_THRESHOLD = 20;
+
+const SEVERITY_ORDER: Record<InsightSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+const isContribution = (entry: AssetEntry) =>
+  entry.transactionType !== 'transfer' && (entry.contributionAmount || 0) > 0;
+
+// Positive balances only, so debts don't inflate shares
+function positiveHoldings(summary: EnhancedAssetSummary): Array<{ platform: string; amount: number }> {
+  return Object.entries(summary.platformData || {})
+    .filter(([, data]) => data.amount > 0)
+    .map(([platform, data]) => ({ platform, amount: data.amount }));
+}
+
+export const INSIGHT_RULES: InsightRule[] = [
+  {
+    id: 'drawdown',
+    severity: 'critical',
+    evaluate: ({ summary, history }) => {
+      const series = createTimeSeriesFromEntries(history);
+      const peak = series.reduce((highest, point) => point.value > highest.value ? point : highest, series[0]);
+      if (!peak || peak.value <= 0) return null;
+      const fall = ((peak.value - summary.totalValue) / peak.value) * 100;
+      if (fall < DRAWDOWN_THRESHOLD) return null;
+      return {
+        type: 'negative',
+        title: `${formatPercentage(fall)} below the all-time high`,
+        description: `The portfolio is worth ${formatCurrency(peak.value - summary.totalValue, summary.baseCurrency)} less than on ${peak.date}. ` +
+          'Check whether the fall comes from markets or from withdrawals, and whether your allocation still fits.',
+        actionable: true,
+        subject: peak.date
+      };
+    }
+  },
+  {
+    id: 'largest-holding',
+    severity: 'warning',
+    evaluate: ({ summary }) => {
+      const holdings = positiveHoldings(summary);
+      const total = holdings.reduce((sum, holding) => sum + holding.amount, 0);
+      if (holdings.length < 2 || total <= 0) return null;
+      const largest = holdings.reduce((max, holding) => holding.amount > max.amount ? holding : max);
+      const share = (largest.amount / total) * 100;
+      if (share <= CONCENTRATION_THRESHOLD) return null;
+      return {
+        type: 'negative',
+        title: `${largest.platform} is ${formatPercentage(share)} of the portfolio`,
+        description: `A single holding above ${CONCENTRATION_THRESHOLD}% makes the portfolio depend on it. ` +
+          'Consider directing new contributions elsewhere or setting target weights.',
+        actionable: true,
+        subject: largest.platform
+      };
+    }
+  },
+  {
+    id: 'rate-shortfall',
+    severity: 'warning',
+    evaluate: ({ summary, history, selectedDate }) => {
+      const shortfalls = Object.entries(summary.platformData || {})
+        .filter(([, data]) => data.amount > 0 && data.rate > 0)
+        .map(([platform, data]) => {
+          const lastYear = filterEntriesByPeriod(history.filter(entry => entry.platform === platform), '1Y', selectedDate);
+          if (lastYear.length < 2 || differenceInDays(parseISO(selectedDate), parseISO(lastYear[0].date)) < 330) return null;
+          const performance = calculatePerformanceMetrics(lastYear);
+          if (!performance.dataQualityInfo.hasEnhancedData) return null;
+          const realized = performance.timeWeightedReturn;
+          return realized < data.rate - RATE_SHORTFALL_POINTS ? { platform, realized, expected: data.rate } : null;
+        })
+        .filter((shortfall): shortfall is NonNullable<typeof shortfall> => shortfall !== null);
+      if (shortfalls.length === 0) return null;
+      return {
+        type: 'negative',
+        title: shortfalls.length === 1
+          ? `${shortfalls[0].platform} returned well below its expected rate`
+          : `${shortfalls.length} platforms returned well below their expected rates`,
+        description: shortfalls
+          .map(({ platform, realized, expected }) => `${platform}: ${formatPercentage(realized)} over the last year against ${formatPercentage(expected)} expected`)
+          .join('; ') + '. Review the expected rates or the holdings themselves.',
+        actionable: true,
+        subject: shortfalls.map(shortfall => shortfall.platform).join(',')
+      };
+    }
+  },
+  {
+    id: 'contributions-paused',
+    severity: 'warning',
+    evaluate: ({ history, selectedDate }) => {
+      const contributions = history.filter(isContribution).sort((a, b) => a.date.localeCompare(b.date));
+      const last = contributions[contributions.length - 1];
+      if (contributions.length < 3 || !last) return null;
+      const pausedSince = format(subMonths(parseISO(selectedDate), CONTRIBUTION_PAUSE_MONTHS), 'yyyy-MM-dd');
+      if (last.date > pausedSince) return null;
+      return {
+        type: 'neutral',
+        title: 'Contributions have paused',
+        description: `The last contribution was on ${last.date}, more than ${CONTRIBUTION_PAUSE_MONTHS} months ago. ` +
+          'If that is unintended, a standing order keeps the habit going.',
+        actionable: true,
+        subject: last.date
+      };
+    }
+  },
+  {
+    id: 'cash-reserve',
+    severity: 'info',
+    evaluate: ({ summary, history, platformTags, selectedDate }) => {
+      const cash = positiveHoldings(summary)
+        .filter(holding => CASH_TAGS.includes((platformTags[holding.platform] || '').trim().toLowerCase()))
+        .reduce((sum, holding) => sum + holding.amount, 0);
+      const yearAgo = format(subMonths(parseISO(selectedDate), 12), 'yyyy-MM-dd');
+      const recent = history.filter(entry => entry.date > yearAgo && isContribution(entry));
+      const firstDate = history.reduce((first, entry) => entry.date < first ? entry.date : first, selectedDate);
+      const months = Math.min(12, Math.max(1, Math.round(differenceInDays(parseISO(selectedDate), parseISO(firstDate)) / 30.44)));
+      const monthly = recent.reduce((sum, entry) => sum + (entry.contributionAmount || 0), 0) / months;
+      if (cash <= 0 || monthly <= 0 || cash <= monthly * CASH_RESERVE_MONTHS) return null;
+      return {
+        type: 'neutral',
+        title: `Cash covers ${Math.floor(cash / monthly)} months of contributions`,
+        description: `${formatCurrency(cash, summary.baseCurrency)} sits in cash against ${formatCurrency(monthly, summary.baseCurrency)} invested a month. ` +
+          `Beyond ${CASH_RESERVE_MONTHS} months, part of it could be invested.`,
+        actionable: true
+      };
+    }
+  },
+  {
+    id: 'all-time-high',
+    severity: 'info',
+    evaluate: ({ summary, history, selectedDate }) => {
+      const earlier = createTimeSeriesFromEntries(history.filter(entry => entry.date < selectedDate));
+      if (earlier.length < 2) return null;
+      const previousHigh = Math.max(...earlier.map(point => point.value));
+      if (summary.totalValue <= previousHigh) return null;
+      return {
+        type: 'positive',
+        title: 'New all-time high',
+        description: `At ${formatCurrency(summary.totalValue, summary.baseCurrency)} the portfolio is ${formatCurrency(summary.totalValue - previousHigh, summary.baseCurrency)} above its previous high.`,
+        subject: selectedDate
+      };
+    }
+  },
+  {
+    id: 'growth-vs-contributions',
+    severity: 'info',
+    evaluate: ({ summary }) => {
+      const cashFlow = summary.cashFlowMetrics;
+      if (!cashFlow || !summary.portfolioMetrics) return null;
+      if (cashFlow.totalContributions === 0) {
+        return {
+          type: 'neutral',
+          title: 'Snapshot-only data',
+          description: 'Portfolio analytics are limited with snapshot-only data. Add cash flow information for better insights.',
+          actionable: true
+        };
+      }
+      if (cashFlow.investmentGains > cashFlow.contributionGains) {
+        return {
+          type: 'positive',
+          title: 'Growth is outpacing contributions',
+          description: cashFlow.contributionGains > 0
+            ? `Your investments have grown more than your contributions: ${formatPercentage((cashFlow.investmentGains / cashFlow.contributionGains) * 100)} growth on invested capital.`
+            : 'Your investments have grown more than your contributions.'
+        };
+      }
+      if (cashFlow.contributionGains > 0) {
+        return {
+          type: 'neutral',
+          title: 'Value comes mostly from contributions',
+          description: 'Most of your portfolio value comes from contributions. Focus on time in market for compound growth.'
+        };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'volatility',
+    severity: finding => finding.type === 'negative' ? 'warning' : 'info',
+    evaluate: ({ summary }) => {
+      const volatility = summary.portfolioMetrics?.volatility;
+      if (volatility === undefined || !summary.cashFlowMetrics) return null;
+      if (volatility > 15) {
+        return {
+          type: 'negative',
+          title: 'High volatility',
+          description: `Your portfolio has high volatility (${formatPercentage(volatility)}). Consider diversification.`,
+          actionable: true
+        };
+      }
+      if (volatility < 5) {
+        return {
+          type: 'neutral',
+          title: 'Very conservative portfolio',
+          description: 'Your portfolio has low volatility. Consider higher-growth assets for better returns.'
+        };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'contribution-frequency',
+    severity: 'info',
+    evaluate: ({ summary }) => {
+      const frequency = summary.cashFlowMetrics?.contributionFrequency || 0;
+      if (frequency <= 0 || frequency >= 2) return null;
+      return {
+        type: 'neutral',
+        title: 'Infrequent contributions',
+        description: 'You invest less than 2 times per year. Regular contributions can improve dollar-cost averaging.',
+        actionable: true
+      };
+    }
+  }
+];
+
+/**
+ * Run every rule over the context, most severe findings first.
+ * A rule that throws is skipped, so one faulty rule can't hide the others.
+ */
+export function generateInsights(context: InsightContext, rules: InsightRule[] = INSIGHT_RULES): PortfolioInsight[] {
+  const insights: PortfolioInsight[] = [];
+  for (const rule of rules) {
+    let finding: InsightFinding | null;
+    try {
+      finding = rule.evaluate(context);
+    } catch (error) {
+      console.error(`Insight rule ${rule.id} failed:`, error);
+      continue;
+    }
+    if (!finding) continue;
+    const { subject, ...insight } = finding;
+    insights.push({
+      ...insight,
+      id: subject ? `${rule.id}:${subject}` : rule.id,
+      rule: rule.id,
+      severity: typeof rule.severity === 'function' ? rule.severity(finding) : rule.severity
+    });
+  }
+  return insights.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
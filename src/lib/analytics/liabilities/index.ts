@@ -0,0 +1,89 @@
+import type { AssetEntry, PlatformMeta } from '../../db';
+import type { HomeEquity, LiabilityDetail, LiabilitySummary, NetWorthPoint } from '../types/metrics';
+
+// Liabilities (mortgages, loans, card balances) are recorded as negative balances
+export const isLiability = (entry: Pick<AssetEntry, 'amount'>) => entry.amount < 0;
+
+/**
+ * Assets, liabilities and net worth of each date in a history, oldest first
+ */
+export function createNetWorthSeries(history: AssetEntry[]): NetWorthPoint[] {
+  const byDate = new Map<string, NetWorthPoint>();
+  for (const entry of history) {
+    const point = byDate.get(entry.date) || { date: entry.date, assets: 0, liabilities: 0, netWorth: 0 };
+    if (isLiability(entry)) {
+      point.liabilities -= entry.amount;
+    } else {
+      point.assets += entry.amount;
+    }
+    point.netWorth += entry.amount;
+    byDate.set(entry.date, point);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Liabilities of a date with their interest cost, and the equity in each asset that
+ * liabilities are linked to through `PlatformMeta.securedBy` (a home and its mortgage).
+ * A loan linked to a platform without a positive balance is left out of the equity.
+ */
+export function calculateLiabilities(
+  entries: AssetEntry[],
+  previousEntries: AssetEntry[],
+  platformMeta: Record<string, PlatformMeta>
+): LiabilitySummary {
+  const previousBalance = (platform: string) => {
+    const entry = previousEntries.find(previous => previous.platform === platform);
+    return entry && isLiability(entry) ? -entry.amount : 0;
+  };
+
+  const liabilities: LiabilityDetail[] = entries
+    .filter(isLiability)
+    .map(entry => {
+      const balance = -entry.amount;
+      const previous = previousBalance(entry.platform);
+      return {
+        platform: entry.platform,
+        balance,
+        previousBalance: previous,
+        change: balance - previous,
+        interestRate: entry.rate,
+        annualInterest: balance * entry.rate / 100,
+        securedBy: platformMeta[entry.platform]?.securedBy
+      };
+    })
+    .sort((a, b) => b.balance - a.balance);
+
+  const totalAssets = entries.reduce((sum, entry) => sum + Math.max(entry.amount, 0), 0);
+  const totalLiabilities = liabilities.reduce((sum, liability) => sum + liability.balance, 0);
+  const annualInterest = liabilities.reduce((sum, liability) => sum + liability.annualInterest, 0);
+
+  const equity = new Map<string, HomeEquity>();
+  for (const liability of liabilities) {
+    const asset = entries.find(entry => entry.platform === liability.securedBy && entry.amount > 0);
+    if (!asset) continue;
+    const home = equity.get(asset.platform) || {
+      platform: asset.platform,
+      value: asset.amount,
+      debt: 0,
+      equity: asset.amount,
+      loanToValue: 0,
+      liabilities: []
+    };
+    home.debt += liability.balance;
+    home.equity = home.value - home.debt;
+    home.loanToValue = (home.debt / home.value) * 100;
+    home.liabilities.push(liability.platform);
+    equity.set(asset.platform, home);
+  }
+
+  return {
+    totalAssets,
+    totalLiabilities,
+    netWorth: totalAssets - totalLiabilities,
+    interestRate: totalLiabilities > 0 ? (annualInterest / totalLiabilities) * 100 : 0,
+    annualInterest,
+    liabilities,
+    equity: [...equity.values()].sort((a, b) => b.value - a.value)
+  };
+}
@@ -0,0 +1,145 @@
+import type { AssetEntry, PlatformMeta, Position, TaxTreatment } from '../../db';
+import type { AssetLocationFlag, AssetLocationGroup, AssetLocationResult } from '../types/metrics';
+import { isConvertedEntry } from '../currency';
+import { getPositionValue } from '../positions';
+import { getTaxTreatment } from '../tax';
+import { formatCurrency } from '../../utils/calculations';
+
+export const UNCLASSIFIED_ASSET_CLASS = 'Unclassified';
+
+// Asset classes (matched by name) whose interest or payouts are taxed every year
+const TAX_INEFFICIENT_CLASSES = ['bond', 'fixed income', 'treasur', 'reit', 'real estate', 'high yield'];
+
+// Asset classes with the highest expected growth, which gain most from tax-free compounding
+const GROWTH_CLASSES = ['equit', 'stock', 'share', 'crypto'];
+
+// Holdings below this value aren't worth moving
+const MIN_FLAG_VALUE = 1;
+
+const matches = (assetClass: string, names: string[]) =>
+  names.some(name => assetClass.toLowerCase().includes(name));
+
+export const isTaxInefficientClass = (assetClass: string) => matches(assetClass, TAX_INEFFICIENT_CLASSES);
+export const isGrowthClass = (assetClass: string) => matches(assetClass, GROWTH_CLASSES);
+
+/**
+ * Value of an entry per asset class, in the entry's (base) currency. Positions count under
+ * their asset class; the rest of the balance, or all of it without positions, under the
+ * platform's tag.
+ */
+export function getAssetClassValues(
+  entry: AssetEntry,
+  positions: Position[],
+  platformTags: Record<string, string>
+): Record<string, number> {
+  const fallback = platformTags[entry.platform]?.trim() || UNCLASSIFIED_ASSET_CLASS;
+  const values: Record<string, number> = {};
+  const add = (assetClass: string, value: number) => {
+    if (value > 0) values[assetClass] = (values[assetClass] || 0) + value;
+  };
+
+  const fxRate = isConvertedEntry(entry) ? entry.fxRate : 1;
+  let remainder = entry.amount;
+  for (const position of positions) {
+    const value = getPositionValue(position) * fxRate;
+    add(position.assetClass?.trim() || fallback, value);
+    remainder -= value;
+  }
+  add(fallback, remainder);
+  return values;
+}
+
+/**
+ * Current allocation by account type, and holdings placed where they are taxed more than
+ * they need to be: tax-inefficient classes (bonds, REITs) in taxable accounts while tax-deferred
+ * accounts hold other assets they could swap with, and tax-inefficient classes using tax-free
+ * space while growth assets sit elsewhere.
+ */
+export function calculateAssetLocation(
+  entries: AssetEntry[],
+  positionsByEntry: Record<number, Position[]>,
+  platformTags: Record<string, string>,
+  platformMeta: Record<string, PlatformMeta>
+): AssetLocationResult {
+  const holdings = entries
+    .filter(entry => entry.amount > 0)
+    .map(entry => ({
+      platform: entry.platform,
+      accountType: platformMeta[entry.platform]?.accountType,
+      treatment: getTaxTreatment(platformMeta[entry.platform]),
+      value: entry.amount,
+      assetClasses: getAssetClassValues(entry, entry.id !== undefined ? positionsByEntry[entry.id] || [] : [], platformTags)
+    }));
+  const total = holdings.reduce((sum, holding) => sum + holding.value, 0);
+
+  const groups = new Map<string, AssetLocationGroup>();
+  for (const holding of holdings) {
+    const key = holding.accountType || '';
+    const group = groups.get(key) || {
+      accountType: holding.accountType,
+      treatment: holding.treatment,
+      value: 0,
+      percentage: 0,
+      platforms: [],
+      assetClasses: {}
+    };
+    group.value += holding.value;
+    group.platforms.push(holding.platform);
+    for (const [assetClass, value] of Object.entries(holding.assetClasses)) {
+      group.assetClasses[assetClass] = (group.assetClasses[assetClass] || 0) + value;
+    }
+    groups.set(key, group);
+  }
+  for (const group of groups.values()) {
+    group.percentage = total > 0 ? (group.value / total) * 100 : 0;
+  }
+
+  // Value in accounts of a treatment that matches (or doesn't match) a test
+  const valueIn = (treatment: TaxTreatment, test: (assetClass: string) => boolean) => holdings
+    .filter(holding => holding.treatment === treatment)
+    .flatMap(holding => Object.entries(holding.assetClasses))
+    .filter(([assetClass]) => assetClass !== UNCLASSIFIED_ASSET_CLASS && test(assetClass))
+    .reduce((sum, [, value]) => sum + value, 0);
+
+  const flags: AssetLocationFlag[] = [];
+  const deferredRoom = valueIn('tax-deferred', assetClass => !isTaxInefficientClass(assetClass));
+  const growthOutsideTaxFree = valueIn('taxable', isGrowthClass) + valueIn('tax-deferred', isGrowthClass);
+
+  for (const holding of holdings) {
+    for (const [assetClass, value] of Object.entries(holding.assetClasses)) {
+      if (value < MIN_FLAG_VALUE || !isTaxInefficientClass(assetClass)) continue;
+      if (holding.treatment === 'taxable' && deferredRoom > 0) {
+        const swappable = Math.min(value, deferredRoom);
+        flags.push({
+          id: `taxable:${holding.platform}:${assetClass}`,
+          platform: holding.platform,
+          assetClass,
+          value,
+          swappable,
+          severity: 'warning',
+          title: `${assetClass} in taxable ${holding.platform}`,
+          description: `${formatCurrency(value)} of ${assetClass.toLowerCase()} is taxed every year in ${holding.platform}, while tax-deferred ` +
+            `accounts hold ${formatCurrency(deferredRoom)} of other assets. Swapping up to ${formatCurrency(swappable)} would shelter that income.`
+        });
+      } else if (holding.treatment === 'tax-free' && growthOutsideTaxFree > 0) {
+        const swappable = Math.min(value, growthOutsideTaxFree);
+        flags.push({
+          id: `tax-free:${holding.platform}:${assetClass}`,
+          platform: holding.platform,
+          assetClass,
+          value,
+          swappable,
+          severity: 'info',
+          title: `${assetClass} in tax-free ${holding.platform}`,
+          description: `Tax-free accounts suit the assets expected to grow most. ${formatCurrency(swappable)} of growth assets held ` +
+            `elsewhere could take the place of the ${assetClass.toLowerCase()} in ${holding.platform}.`
+        });
+      }
+    }
+  }
+
+  return {
+    groups: [...groups.values()].sort((a, b) => b.value - a.value),
+    flags: flags.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'warning' ? -1 : 1) || b.value - a.value)
+  };
+}
@@ -0,0 +1,60 @@
+import type { AssetEntry, Position } from '../../db';
+import type { PositionReconciliation } from '../types/metrics';
+import { isConvertedEntry } from '../currency';
+
+// Positions within this share of the balance (or one currency unit) count as matching it
+const RECONCILE_TOLERANCE = 0.005;
+
+export const getPositionValue = (position: Pick<Position, 'quantity' | 'price'>): number =>
+  position.quantity * position.price;
+
+export const sumPositions = (positions: Pick<Position, 'quantity' | 'price'>[]): number =>
+  positions.reduce((sum, position) => sum + getPositionValue(position), 0);
+
+/**
+ * Compare an entry's balance with the total of its positions, both in the entry's own currency
+ */
+export function reconcilePositions(entry: AssetEntry, positions: Position[]): PositionReconciliation {
+  const balance = isConvertedEntry(entry) ? entry.nativeAmount : entry.amount;
+  const positionsTotal = sumPositions(positions);
+  const difference = balance - positionsTotal;
+  return {
+    balance,
+    positionsTotal,
+    difference,
+    matches: Math.abs(difference) <= Math.max(1, Math.abs(balance) * RECONCILE_TOLERANCE)
+  };
+}
+
+/**
+ * Value per security across entries, in the entries' (base) currency.
+ * Positions are grouped by symbol; an entry without positions counts under its platform name,
+ * and the part of a balance its positions don't explain under "<platform> (other)".
+ */
+export function groupBySecurity(
+  entries: AssetEntry[],
+  positionsByEntry: Record<number, Position[]>
+): Record<string, number> {
+  const grouped: Record<string, number> = {};
+  const add = (name: string, value: number) => {
+    if (value > 0) grouped[name] = (grouped[name] || 0) + value;
+  };
+
+  for (const entry of entries) {
+    const positions = entry.id !== undefined ? positionsByEntry[entry.id] || [] : [];
+    if (positions.length === 0) {
+      add(entry.platform, entry.amount);
+      continue;
+    }
+    const fxRate = isConvertedEntry(entry) ? entry.fxRate : 1;
+    for (const position of positions) {
+      add(position.symbol.trim().toUpperCase(), getPositionValue(position) * fxRate);
+    }
+    const remainder = entry.amount - sumPositions(positions) * fxRate;
+    if (remainder > Math.max(1, entry.amount * RECONCILE_TOLERANCE)) {
+      add(`${entry.platform} (other)`, remainder);
+    }
+  }
+
+  return grouped;
+}
@@ -0,0 +1,191 @@
+import type { AssetEntry } from '../../db';
+import type { ProjectionAssumption, ProjectionBand, ProjectionResult, ProjectionSettings } from '../types/metrics';
+import { calculateTWRReturns, getAverageFrequency } from '../risk';
+import { addMonths, format, parseISO } from 'date-fns';
+
+// Platforms with fewer period returns than this use their expected rate and no volatility
+const MIN_HISTORY_RETURNS = 6;
+
+// Limits that keep a run within a few hundred milliseconds
+const MAX_HORIZON_YEARS = 50;
+const MAX_SIMULATIONS = 5000;
+
+const CONTRIBUTION_INTERVAL_MONTHS: Record<ProjectionSettings['contributionFrequency'], number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  horizonYears: 20,
+  contributionAmount: 0,
+  contributionFrequency: 'monthly',
+  contributionGrowth: 0,
+  returnSource: 'history',
+  simulations: 1000,
+  seed: 1
+};
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), so a projection can be reproduced
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal samples from uniform ones (Box-Muller, using both values of each pair)
+function createNormalSampler(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const angle = 2 * Math.PI * random();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+}
+
+/**
+ * Expected return and volatility of each platform held on the last date.
+ * From history: the annualized mean and standard deviation of its TWR period returns.
+ * Otherwise (or with too little history) the entry's expected rate, with the historical
+ * volatility when there is enough history for it.
+ */
+export function estimateProjectionAssumptions(
+  entries: AssetEntry[],
+  returnSource: ProjectionSettings['returnSource']
+): ProjectionAssumption[] {
+  if (entries.length === 0) return [];
+  const lastDate = entries.reduce((latest, entry) => entry.date > latest ? entry.date : latest, entries[0].date);
+
+  return entries
+    .filter(entry => entry.date === lastDate)
+    .map(latest => {
+      const history = entries
+        .filter(entry => entry.platform === latest.platform)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const returns = calculateTWRReturns(history);
+      const hasHistory = returns.length >= MIN_HISTORY_RETURNS;
+
+      let expectedReturn = latest.rate;
+      let volatility = 0;
+      if (hasHistory) {
+        const periodsPerYear = 365 / getAverageFrequency(history);
+        const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+        const variance = returns.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (returns.length - 1);
+        volatility = Math.sqrt(variance * periodsPerYear) * 100;
+        if (returnSource === 'history') {
+          expectedReturn = (Math.pow(1 + mean, periodsPerYear) - 1) * 100;
+        }
+      }
+
+      return {
+        platform: latest.platform,
+        value: latest.amount,
+        expectedReturn,
+        volatility,
+        source: hasHistory && returnSource === 'history' ? 'history' : 'rate'
+      };
+    });
+}
+
+// Value below which a share `p` of the sorted values falls, interpolating between neighbours
+function percentile(sorted: Float64Array, p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Simulate monthly portfolio paths from the last date of `entries` (converted to the base currency).
+ * Each platform grows lognormally with its own expected return and volatility; platforms move
+ * independently, which understates the spread when they hold similar assets. Contributions are
+ * added at the end of their month and split by current weight; debts (balances at or below zero)
+ * stay as they are.
+ */
+export function simulateProjection(entries: AssetEntry[], settings: ProjectionSettings): ProjectionResult {
+  const assumptions = estimateProjectionAssumptions(entries, settings.returnSource);
+  const startDate = entries.reduce((latest, entry) => entry.date > latest ? entry.date : latest, '');
+  const startValue = assumptions.reduce((sum, assumption) => sum + assumption.value, 0);
+  const months = Math.round(Math.min(Math.max(settings.horizonYears, 1), MAX_HORIZON_YEARS) * 12);
+  const simulations = Math.round(Math.min(Math.max(settings.simulations, 100), MAX_SIMULATIONS));
+
+  if (assumptions.length === 0) {
+    return { startDate, startValue, assumptions, bands: [], simulations, seed: settings.seed };
+  }
+
+  // Monthly lognormal drift and volatility matching the annual assumptions
+  const growth = assumptions.map(assumption => {
+    const monthlyVolatility = assumption.volatility / 100 / Math.sqrt(12);
+    return {
+      drift: Math.log(Math.max(1 + assumption.expectedReturn / 100, 0.01)) / 12 - monthlyVolatility * monthlyVolatility / 2,
+      volatility: monthlyVolatility
+    };
+  });
+  const positiveTotal = assumptions.reduce((sum, assumption) => sum + Math.max(assumption.value, 0), 0);
+  const weights = assumptions.map(assumption => positiveTotal > 0
+    ? Math.max(assumption.value, 0) / positiveTotal
+    : 1 / assumptions.length);
+
+  const interval = CONTRIBUTION_INTERVAL_MONTHS[settings.contributionFrequency];
+  const contributions = Array.from({ length: months + 1 }, (_, month) =>
+    month > 0 && month % interval === 0
+      ? settings.contributionAmount * Math.pow(1 + settings.contributionGrowth / 100, Math.floor((month - 1) / 12))
+      : 0
+  );
+
+  const totals = Array.from({ length: months + 1 }, () => new Float64Array(simulations));
+  const normal = createNormalSampler(createSeededRandom(settings.seed));
+
+  for (let path = 0; path < simulations; path++) {
+    const values = assumptions.map(assumption => assumption.value);
+    totals[0][path] = startValue;
+    for (let month = 1; month <= months; month++) {
+      let total = 0;
+      for (let i = 0; i < values.length; i++) {
+        const growing = assumptions[i].value > 0 || positiveTotal === 0;
+        if (growing) {
+          values[i] = Math.max(
+            values[i] * Math.exp(growth[i].drift + growth[i].volatility * normal()) + contributions[month] * weights[i],
+            0
+          );
+        }
+        total += values[i];
+      }
+      totals[month][path] = total;
+    }
+  }
+
+  const start = parseISO(startDate);
+  let invested = startValue;
+  const bands: ProjectionBand[] = totals.map((values, month) => {
+    invested += contributions[month];
+    const sorted = values.slice().sort();
+    return {
+      date: format(addMonths(start, month), 'yyyy-MM-dd'),
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      invested
+    };
+  });
+
+  const finalValues = totals[months];
+  const targetProbability = settings.targetValue !== undefined && settings.targetValue > 0
+    ? finalValues.reduce((count, value) => count + (value >= settings.targetValue! ? 1 : 0), 0) / simulations
+    : undefined;
+
+  return { startDate, startValue, assumptions, bands, targetProbability, simulations, seed: settings.seed };
+}
@@ -0,0 +1,292 @@
+import type { AssetEntry, TargetAllocation } from '../../db';
+import type { AllocationDrift, RebalancePlan, RebalanceTrade } from '../types/metrics';
+
+export type AllocationGroupBy = TargetAllocation['groupBy'];
+
+// Default tolerance band in percentage points around each target
+export const DEFAULT_REBALANCE_TOLERANCE = 5;
+
+// Amounts below a cent are treated as no trade
+const MIN_TRADE_AMOUNT = 0.005;
+
+export interface RebalanceOptions {
+  tolerance?: number;       // percentage points
+  contribution?: number;    // planned new money, allocated before any selling
+  allowSells?: boolean;     // false = only use the contribution
+}
+
+/**
+ * Sum the current value of each platform or tag group.
+ * Mirrors the allocation chart: only positive balances count, and
+ * untagged platforms form their own group when grouping by tag.
+ */
+export function groupAllocationValues(
+  entries: AssetEntry[],
+  platformTags: Record<string, string>,
+  groupBy: AllocationGroupBy
+): Record<string, number> {
+  const grouped: Record<string, number> = {};
+
+  for (const entry of entries) {
+    if (entry.amount <= 0) continue;
+
+    const groupName = groupBy === 'tag'
+      ? (platformTags[entry.platform] || entry.platform)
+      : entry.platform;
+
+    grouped[groupName] = (grouped[groupName] || 0) + entry.amount;
+  }
+
+  return grouped;
+}
+
+/**
+ * Targets for one grouping as a name → percentage map
+ */
+export function getTargetMap(
+  targets: TargetAllocation[],
+  groupBy: AllocationGroupBy
+): Map<string, number> {
+  return new Map(
+    targets
+      .filter(target => target.groupBy === groupBy)
+      .map(target => [target.name, target.target])
+  );
+}
+
+/**
+ * Compare current weights against targets.
+ * Groups without a target are reported with a 'hold' recommendation.
+ */
+export function calculateAllocationDrift(
+  entries: AssetEntry[],
+  platformTags: Record<string, string>,
+  targets: TargetAllocation[],
+  groupBy: AllocationGroupBy,
+  tolerance: number = DEFAULT_REBALANCE_TOLERANCE
+): AllocationDrift[] {
+  const values = groupAllocationValues(entries, platformTags, groupBy);
+  const targetMap = getTargetMap(targets, groupBy);
+  const total = Object.values(values).reduce((sum, value) => sum + value, 0);
+
+  // Include targeted groups that currently hold nothing
+  const names = [...new Set([...Object.keys(values), ...targetMap.keys()])];
+
+  return names
+    .map(name => {
+      const currentValue = values[name] || 0;
+      const allocationPercentage = total > 0 ? (currentValue / total) * 100 : 0;
+      const targetAllocation = targetMap.get(name);
+
+      if (targetAllocation === undefined) {
+        return {
+          name,
+          currentValue,
+          allocationPercentage,
+          outsideTolerance: false,
+          rebalanceRecommendation: 'hold' as const
+        };
+      }
+
+      const allocationDrift = allocationPercentage - targetAllocation;
+      const outsideTolerance = Math.abs(allocationDrift) > tolerance;
+
+      return {
+        name,
+        currentValue,
+        allocationPercentage,
+        targetAllocation,
+        allocationDrift,
+        outsideTolerance,
+        rebalanceRecommendation: !outsideTolerance ? 'hold' as const : (allocationDrift > 0 ? 'sell' as const : 'buy' as const)
+      };
+    })
+    .sort((a, b) => b.currentValue - a.currentValue);
+}
+
+/**
+ * Plan the buys and sells that bring every targeted group back inside the tolerance band.
+ *
+ * 1. A planned contribution is first spread over underweight groups in proportion to
+ *    their shortfall, so drift is reduced without selling anything.
+ * 2. If groups are still outside the band (and selling is allowed), out-of-band groups
+ *    are traded back to target. Buys and sells are matched so the plan is self-funding.
+ *
+ * Groups without a target are left untouched.
+ */
+export function planRebalance(
+  entries: AssetEntry[],
+  platformTags: Record<string, string>,
+  targets: TargetAllocation[],
+  groupBy: AllocationGroupBy,
+  options: RebalanceOptions = {}
+): RebalancePlan {
+  const tolerance = options.tolerance ?? DEFAULT_REBALANCE_TOLERANCE;
+  const contribution = Math.max(0, options.contribution || 0);
+  const allowSells = options.allowSells ?? true;
+
+  const values = groupAllocationValues(entries, platformTags, groupBy);
+  const targetMap = getTargetMap(targets, groupBy);
+  const names = [...new Set([...Object.keys(values), ...targetMap.keys()])];
+  const targetedNames = names.filter(name => targetMap.has(name));
+
+  const totalBefore = Object.values(values).reduce((sum, value) => sum + value, 0);
+  const totalAfter = totalBefore + contribution;
+  const warnings: string[] = [];
+
+  const targetSum = targetedNames.reduce((sum, name) => sum + (targetMap.get(name) || 0), 0);
+  if (targetedNames.length === 0) {
+    warnings.push(`No ${groupBy} targets set. Add target weights in Data Management → Edit Tags & Targets.`);
+  } else if (Math.abs(targetSum - 100) > 0.01) {
+    warnings.push(`${groupBy === 'tag' ? 'Tag' : 'Platform'} targets add up to ${targetSum.toFixed(1)}% instead of 100%, so not every target can be met exactly.`);
+  }
+
+  const ideal = (name: string) => ((targetMap.get(name) || 0) / 100) * totalAfter;
+  const buys: Record<string, number> = {};
+  const sells: Record<string, number> = {};
+  const fromContribution: Record<string, number> = {};
+  const after: Record<string, number> = {};
+  names.forEach(name => after[name] = values[name] || 0);
+
+  // Step 1: use the contribution on underweight groups first
+  if (contribution > 0 && targetedNames.length > 0) {
+    const gaps = targetedNames.map(name => Math.max(0, ideal(name) - after[name]));
+    const gapSum = gaps.reduce((sum, gap) => sum + gap, 0);
+    let remaining = contribution;
+
+    if (gapSum > 0) {
+      const allocatable = Math.min(contribution, gapSum);
+      targetedNames.forEach((name, i) => {
+        const share = allocatable * (gaps[i] / gapSum);
+        fromContribution[name] = (fromContribution[name] || 0) + share;
+        remaining -= share;
+      });
+    }
+
+    // Anything left after closing every gap follows the target weights
+    if (remaining > MIN_TRADE_AMOUNT && targetSum > 0) {
+      targetedNames.forEach(name => {
+        const share = remaining * ((targetMap.get(name) || 0) / targetSum);
+        fromContribution[name] = (fromContribution[name] || 0) + share;
+      });
+    }
+
+    targetedNames.forEach(name => {
+      const amount = fromContribution[name] || 0;
+      buys[name] = (buys[name] || 0) + amount;
+      after[name] += amount;
+    });
+  } else if (contribution > 0) {
+    warnings.push('The contribution could not be allocated because no targets are set.');
+  }
+
+  const isOutOfBand = (name: string) => totalAfter > 0
+    && Math.abs((after[name] / totalAfter) * 100 - (targetMap.get(name) || 0)) > tolerance;
+
+  // Step 2: trade out-of-band groups back to target
+  const outOfBand = targetedNames.filter(isOutOfBand);
+
+  if (outOfBand.length > 0 && !allowSells) {
+    warnings.push('Some groups remain outside the tolerance band without selling. Increase the contribution or allow sells.');
+  } else if (outOfBand.length > 0) {
+    const tradeSells: Record<string, number> = {};
+    const tradeBuys: Record<string, number> = {};
+
+    outOfBand.forEach(name => {
+      const difference = ideal(name) - after[name];
+      if (difference > 0) tradeBuys[name] = difference;
+      else tradeSells[name] = -difference;
+    });
+
+    let sellSum = sumValues(tradeSells);
+    let buySum = sumValues(tradeBuys);
+
+    // Spare proceeds go to in-band groups that are still below target
+    if (sellSum > buySum) {
+      addProportionally(tradeBuys, targetedNames.filter(name => !outOfBand.includes(name)),
+        name => Math.max(0, ideal(name) - after[name]), sellSum - buySum);
+      buySum = sumValues(tradeBuys);
+    }
+
+    // Missing funding comes from in-band groups that are above target
+    if (buySum > sellSum) {
+      addProportionally(tradeSells, targetedNames.filter(name => !outOfBand.includes(name)),
+        name => Math.max(0, after[name] - ideal(name)), buySum - sellSum);
+      sellSum = sumValues(tradeSells);
+    }
+
+    // Whatever is still unmatched is scaled down so the plan nets to zero
+    if (sellSum > buySum && sellSum > 0) scaleValues(tradeSells, buySum / sellSum);
+    if (buySum > sellSum && buySum > 0) scaleValues(tradeBuys, sellSum / buySum);
+
+    Object.entries(tradeBuys).forEach(([name, amount]) => {
+      buys[name] = (buys[name] || 0) + amount;
+      after[name] += amount;
+    });
+    Object.entries(tradeSells).forEach(([name, amount]) => {
+      sells[name] = (sells[name] || 0) + amount;
+      after[name] -= amount;
+    });
+  }
+
+  const trades: RebalanceTrade[] = names.map(name => {
+    const net = (buys[name] || 0) - (sells[name] || 0);
+    const action: RebalanceTrade['action'] = Math.abs(net) < MIN_TRADE_AMOUNT ? 'hold' : (net > 0 ? 'buy' : 'sell');
+
+    return {
+      name,
+      action,
+      amount: action === 'hold' ? 0 : roundCents(Math.abs(net)),
+      fromContribution: roundCents(fromContribution[name] || 0),
+      currentValue: values[name] || 0,
+      resultingValue: after[name],
+      currentPercentage: totalBefore > 0 ? ((values[name] || 0) / totalBefore) * 100 : 0,
+      resultingPercentage: totalAfter > 0 ? (after[name] / totalAfter) * 100 : 0,
+      targetAllocation: targetMap.get(name)
+    };
+  }).sort((a, b) => b.amount - a.amount);
+
+  return {
+    trades,
+    contribution,
+    totalBefore,
+    totalAfter,
+    totalBuys: roundCents(trades.filter(t => t.action === 'buy').reduce((sum, t) => sum + t.amount, 0)),
+    totalSells: roundCents(trades.filter(t => t.action === 'sell').reduce((sum, t) => sum + t.amount, 0)),
+    withinToleranceAfter: targetedNames.every(name => !isOutOfBand(name)),
+    warnings
+  };
+}
+
+function sumValues(record: Record<string, number>): number {
+  return Object.values(record).reduce((sum, value) => sum + value, 0);
+}
+
+function scaleValues(record: Record<string, number>, factor: number): void {
+  Object.keys(record).forEach(name => record[name] *= factor);
+}
+
+/**
+ * Spread `amount` over candidates in proportion to their capacity, never exceeding it
+ */
+function addProportionally(
+  record: Record<string, number>,
+  candidates: string[],
+  capacity: (name: string) => number,
+  amount: number
+): void {
+  const capacities = candidates.map(capacity);
+  const totalCapacity = capacities.reduce((sum, value) => sum + value, 0);
+  if (totalCapacity <= 0) return;
+
+  const allocatable = Math.min(amount, totalCapacity);
+  candidates.forEach((name, i) => {
+    if (capacities[i] > 0) {
+      record[name] = (record[name] || 0) + allocatable * (capacities[i] / totalCapacity);
+    }
+  });
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -70,7 +70,7 @@ function analyzeDataQuality(entries: AssetEntry[]): {
     // Enhanced data has contribution information or explicit enhanced data quality
     if (entry.contributionAmount !== undefined || 
         entry.dataQuality === 'enhanced' || 
-        entry.transactionType === 'contribution') {
+        (entry.transactionType && entry.transactionType !== 'snapshot')) {
       enhancedCount++;
     } else {
       snapshotOnlyCount++;
@@ -138,7 +138,7 @@ function calculateInvestmentRiskMetrics(entries: AssetEntry[]): InvestmentRiskMe
  * Calculate Time-Weighted Returns for risk analysis
  * This separates investment performance from contributions
  */
-function calculateTWRReturns(entries: AssetEntry[]): number[] {
+export function calculateTWRReturns(entries: AssetEntry[]): number[] {
   const returns: number[] = [];
   
   for (let i = 1; i < entries.length; i++) {
@@ -322,7 +322,7 @@ function calculateValueAtRisk(returns: number[], confidence: number): number {
 /**
  * Calculate diversification metrics (works with any data quality)
  */
-function calculateDiversificationMetrics(entries: AssetEntry[]): {
+export function calculateDiversificationMetrics(entries: AssetEntry[]): {
   score: number;
   platformCount: number;
   concentrationRisk: number;
@@ -357,7 +357,8 @@ function calculateDiversificationMetrics(entries: AssetEntry[]): {
  * Helper functions
  */
 
-function getAverageFrequency(entries: AssetEntry[]): number {
+// Average days between consecutive entries (30 when it can't be told)
+export function getAverageFrequency(entries: AssetEntry[]): number {
   if (entries.length < 2) return 30;
 
   let totalDays = 0;
@@ -0,0 +1,29 @@
+// Messages between the app and the analytics worker (see worker.ts and client.ts)
+
+import { calculateEnhancedAnalytics } from './index';
+import { calculateSmartRiskAnalysis } from './risk';
+import { simulateProjection } from './projection';
+import { calculateMonthlyRates } from '../utils/calculations';
+
+// Functions the worker runs, by name; arguments and results must survive structured cloning
+export const analyticsMethods = {
+  summary: calculateEnhancedAnalytics,
+  monthlyRates: calculateMonthlyRates,
+  riskAnalysis: calculateSmartRiskAnalysis,
+  projection: simulateProjection
+};
+
+export type AnalyticsMethod = keyof typeof analyticsMethods;
+export type AnalyticsArgs<M extends AnalyticsMethod> = Parameters<(typeof analyticsMethods)[M]>;
+export type AnalyticsResult<M extends AnalyticsMethod> = ReturnType<(typeof analyticsMethods)[M]>;
+
+export type AnalyticsRequest =
+  | { type: 'call'; id: number; method: AnalyticsMethod; args: unknown[] }
+  | { type: 'cancel'; id: number };  // drop a call the worker hasn't started yet
+
+export type AnalyticsResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+export const runAnalyticsMethod = (method: AnalyticsMethod, args: unknown[]): unknown =>
+  (analyticsMethods[method] as (...args: unknown[]) => unknown)(...args);
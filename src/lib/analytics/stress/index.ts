@@ -0,0 +1,74 @@
+import type { AssetEntry } from '../../db';
+import type { StressScenario, StressShock, StressTestResult } from '../types/metrics';
+import { calculateDiversificationMetrics } from '../risk';
+import { groupAllocationValues } from '../rebalancing';
+import presets from './presets.json';
+
+// Historical scenarios; their shocks use common tag names, matched ignoring case
+export const PRESET_STRESS_SCENARIOS = presets as StressScenario[];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Shock for a platform: its own shock wins over its tag's
+ */
+export function findStressShock(
+  platform: string,
+  tag: string | undefined,
+  shocks: StressShock[]
+): StressShock | undefined {
+  return shocks.find(shock => shock.target === 'platform' && sameName(shock.name, platform))
+    ?? (tag ? shocks.find(shock => shock.target === 'tag' && sameName(shock.name, tag)) : undefined);
+}
+
+// Percentage of the total for each allocation group (only positive balances count, as in the allocation chart)
+function allocationPercentages(entries: AssetEntry[], platformTags: Record<string, string>): Record<string, number> {
+  const grouped = groupAllocationValues(entries, platformTags, 'tag');
+  const total = Object.values(grouped).reduce((sum, value) => sum + value, 0);
+  return Object.fromEntries(Object.entries(grouped).map(([name, value]) => [name, total > 0 ? (value / total) * 100 : 0]));
+}
+
+/**
+ * Apply a scenario's shocks to one date's entries. Balances at or below zero (debts) are not shocked.
+ */
+export function applyStressScenario(
+  entries: AssetEntry[],
+  scenario: Pick<StressScenario, 'shocks'>,
+  platformTags: Record<string, string>
+): StressTestResult {
+  const stressed = entries.map(entry => {
+    const shock = entry.amount > 0 ? findStressShock(entry.platform, platformTags[entry.platform], scenario.shocks) : undefined;
+    return { ...entry, amount: shock ? entry.amount * (1 + shock.change / 100) : entry.amount };
+  });
+
+  const totalBefore = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const totalAfter = stressed.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const before = allocationPercentages(entries, platformTags);
+  const after = allocationPercentages(stressed, platformTags);
+  const allocationShift = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .map(name => ({ name, beforePercentage: before[name] || 0, afterPercentage: after[name] || 0 }))
+    .sort((a, b) => b.beforePercentage - a.beforePercentage);
+
+  const unmatchedShocks = scenario.shocks.filter(shock => !entries.some(entry => shock.target === 'platform'
+    ? sameName(shock.name, entry.platform)
+    : !!platformTags[entry.platform] && sameName(shock.name, platformTags[entry.platform])));
+
+  return {
+    totalBefore,
+    totalAfter,
+    change: totalAfter - totalBefore,
+    changePercent: totalBefore !== 0 ? ((totalAfter - totalBefore) / Math.abs(totalBefore)) * 100 : 0,
+    platforms: entries.map((entry, index) => ({
+      platform: entry.platform,
+      tag: platformTags[entry.platform],
+      before: entry.amount,
+      after: stressed[index].amount,
+      change: entry.amount !== 0 ? ((stressed[index].amount - entry.amount) / entry.amount) * 100 : 0
+    })),
+    allocationShift,
+    diversificationBefore: calculateDiversificationMetrics(entries),
+    diversificationAfter: calculateDiversificationMetrics(stressed),
+    unmatchedShocks
+  };
+}
@@ -0,0 +1,126 @@
+import type { AccountType, AssetEntry, CostBasisMethod, PlatformMeta, TaxTreatment } from '../../db';
+import type { TaxReport, TaxReportRow } from '../types/metrics';
+import { calculateCostBasis } from '../costbasis';
+
+export const DEFAULT_TAX_TREATMENT: TaxTreatment = 'taxable';
+
+export const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  taxable: 'Taxable',
+  'tax-deferred': 'Tax-deferred',
+  'tax-free': 'Tax-free'
+};
+
+// Treatment implied by an account type, used until a platform's treatment is set
+export const ACCOUNT_TYPE_TAX_TREATMENTS: Record<AccountType, TaxTreatment> = {
+  taxable: 'taxable',
+  cash: 'taxable',
+  ira: 'tax-deferred',
+  '401k': 'tax-deferred',
+  roth: 'tax-free',
+  hsa: 'tax-free',
+  '529': 'tax-free'
+};
+
+/**
+ * A platform's tax treatment: as set, else implied by its account type, else taxable
+ */
+export function getTaxTreatment(meta?: PlatformMeta): TaxTreatment {
+  return meta?.taxTreatment
+    || (meta?.accountType ? ACCOUNT_TYPE_TAX_TREATMENTS[meta.accountType] : undefined)
+    || DEFAULT_TAX_TREATMENT;
+}
+
+/**
+ * Calendar years that have entries, newest first
+ */
+export function getTaxYears(history: AssetEntry[]): number[] {
+  const years = new Set(history.map(entry => parseInt(entry.date.slice(0, 4), 10)));
+  return [...years].filter(year => !isNaN(year)).sort((a, b) => b - a);
+}
+
+/**
+ * Realized gains by holding period, dividend and interest income, and contributions for one
+ * calendar year, per platform. Gains come from the tax lots of `calculateCostBasis`, so a
+ * platform's cost basis method decides which lots its withdrawals sold.
+ * Platforms without a `treatments` entry count as taxable.
+ */
+export function generateTaxReport(
+  history: AssetEntry[],
+  year: number,
+  methods: Record<string, CostBasisMethod> = {},
+  treatments: Record<string, TaxTreatment> = {},
+  currency?: string
+): TaxReport {
+  const start = `${year}-01-01`;
+  const end = `${year}-12-31`;
+  const realized = calculateCostBasis(history, methods, end).platforms
+    .flatMap(platform => platform.realized)
+    .filter(lot => lot.closeDate >= start && lot.closeDate <= end)
+    .sort((a, b) => a.closeDate.localeCompare(b.closeDate) || a.platform.localeCompare(b.platform));
+  const inYear = history.filter(entry => entry.date >= start && entry.date <= end);
+
+  const rows = new Map<string, TaxReportRow>();
+  const rowFor = (platform: string): TaxReportRow => {
+    let row = rows.get(platform);
+    if (!row) {
+      row = {
+        platform,
+        treatment: treatments[platform] || DEFAULT_TAX_TREATMENT,
+        proceeds: 0,
+        costBasis: 0,
+        shortTermGain: 0,
+        longTermGain: 0,
+        dividends: 0,
+        interest: 0,
+        contributions: 0
+      };
+      rows.set(platform, row);
+    }
+    return row;
+  };
+
+  for (const lot of realized) {
+    const row = rowFor(lot.platform);
+    row.proceeds += lot.proceeds;
+    row.costBasis += lot.costBasis;
+    if (lot.term === 'long') {
+      row.longTermGain += lot.gain;
+    } else {
+      row.shortTermGain += lot.gain;
+    }
+  }
+
+  for (const entry of inYear) {
+    if (entry.transactionType === 'dividend') {
+      rowFor(entry.platform).dividends += entry.incomeAmount || 0;
+    } else if (entry.transactionType === 'interest') {
+      rowFor(entry.platform).interest += entry.incomeAmount || 0;
+    } else if (entry.transactionType !== 'transfer' && (entry.contributionAmount || 0) > 0) {
+      rowFor(entry.platform).contributions += entry.contributionAmount || 0;
+    }
+  }
+
+  const sorted = [...rows.values()].sort((a, b) => a.platform.localeCompare(b.platform));
+  const taxableRows = sorted.filter(row => row.treatment === 'taxable');
+  const sum = (list: TaxReportRow[], pick: (row: TaxReportRow) => number) =>
+    list.reduce((total, row) => total + pick(row), 0);
+  const contributionsOf = (treatment: TaxTreatment) =>
+    sum(sorted.filter(row => row.treatment === treatment), row => row.contributions);
+
+  return {
+    year,
+    currency,
+    rows: sorted,
+    realized,
+    taxable: {
+      shortTermGain: sum(taxableRows, row => row.shortTermGain),
+      longTermGain: sum(taxableRows, row => row.longTermGain),
+      dividends: sum(taxableRows, row => row.dividends),
+      interest: sum(taxableRows, row => row.interest)
+    },
+    advantagedContributions: {
+      'tax-deferred': contributionsOf('tax-deferred'),
+      'tax-free': contributionsOf('tax-free')
+    }
+  };
+}
@@ -1,10 +1,15 @@
+import type { AccountType, CostBasisMethod, TaxTreatment } from '../../db';
+
 // Core performance metrics for the analytics system
 export interface PerformanceMetrics {
   // Time-weighted return (true investment performance)
   timeWeightedReturn: number;
   
-  // Money-weighted return (actual investor experience)
-  moneyWeightedReturn: number;
+  // Money-weighted return (actual investor experience), annualized via XIRR.
+  // null when it can't be computed; moneyWeightedReturnStatus says why
+  moneyWeightedReturn: number | null;
+  moneyWeightedReturnStatus?: 'converged' | 'not_converged' | 'insufficient_data';
+  moneyWeightedReturnMessage?: string;
   
   // Compound Annual Growth Rate
   cagr: number;
@@ -15,6 +20,9 @@ export interface PerformanceMetrics {
   // Annualized volatility (standard deviation)
   volatility: number;
   
+  // Largest fall of the time-weighted growth index (percentage, positive)
+  maxDrawdown?: number;
+  
   // Risk-adjusted returns
   sharpeRatio?: number;
   sortinoRatio?: number;
@@ -40,12 +48,22 @@ export interface CashFlowMetrics {
   averageContributionAmount: number;
   contributionFrequency: number; // contributions per year
   
+  // Returns recorded as transactions (already part of the balance, not cash flows)
+  totalDividends: number;
+  totalInterest: number;
+  totalFees: number;          // positive number
+  
   // Time-series data
   contributionsByPeriod: Array<{
     date: string;
     amount: number;
     type: 'contribution' | 'withdrawal';
   }>;
+  incomeByPeriod: Array<{
+    date: string;
+    amount: number;  // signed: fees are negative
+    type: 'dividend' | 'interest' | 'fee';
+  }>;
 }
 
 // Risk analysis metrics
@@ -78,6 +96,12 @@ export interface GoalMetrics {
   projectedCompletion?: string;  // estimated completion date
   onTrack: boolean;
   requiredMonthlyContribution: number;
+
+  // Projection inputs, so the UI can explain how the estimate was made
+  currentValue?: number;
+  annualGrowthRate?: number;  // percentage, e.g. 6.5 for 6.5%
+  monthlyContribution?: number;  // historical contribution cadence
+  growthSource?: 'twr' | 'cagr' | 'expected_rate';
 }
 
 // Platform/allocation analysis
@@ -97,6 +121,280 @@ export interface AllocationMetrics {
   rebalanceRecommendation?: 'buy' | 'sell' | 'hold';
 }
 
+// Current weight of a platform/tag group against its target
+export interface AllocationDrift {
+  name: string;                 // platform name or tag
+  currentValue: number;
+  allocationPercentage: number;
+  targetAllocation?: number;    // undefined when no target is set
+  allocationDrift?: number;     // percentage points, positive = overweight
+  outsideTolerance: boolean;
+  rebalanceRecommendation: 'buy' | 'sell' | 'hold';
+}
+
+// Single buy/sell instruction from the rebalancing planner
+export interface RebalanceTrade {
+  name: string;
+  action: 'buy' | 'sell' | 'hold';
+  amount: number;               // always positive
+  fromContribution: number;     // portion of a buy funded by the new contribution
+  currentValue: number;
+  resultingValue: number;
+  currentPercentage: number;
+  resultingPercentage: number;
+  targetAllocation?: number;
+}
+
+// Output of the rebalancing planner
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  contribution: number;
+  totalBefore: number;
+  totalAfter: number;
+  totalBuys: number;
+  totalSells: number;
+  withinToleranceAfter: boolean;
+  warnings: string[];
+}
+
+// Inputs of a Monte Carlo projection
+export interface ProjectionSettings {
+  horizonYears: number;
+  contributionAmount: number;         // per contribution, in the base currency; negative to withdraw
+  contributionFrequency: 'monthly' | 'quarterly' | 'yearly';
+  contributionGrowth: number;         // yearly increase of the contribution, percentage
+  returnSource: 'history' | 'rate';   // historical TWR returns, or each platform's expected rate
+  targetValue?: number;
+  simulations: number;
+  seed: number;                       // same seed and inputs give the same paths
+}
+
+// Return assumption for one platform of a projection
+export interface ProjectionAssumption {
+  platform: string;
+  value: number;
+  expectedReturn: number;             // annual percentage
+  volatility: number;                 // annual percentage; 0 without enough history
+  source: 'history' | 'rate';
+}
+
+// Percentiles of the simulated portfolio value on one date
+export interface ProjectionBand {
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  invested: number;                   // starting value plus contributions, without growth
+}
+
+// Output of a Monte Carlo projection
+export interface ProjectionResult {
+  startDate: string;
+  startValue: number;
+  assumptions: ProjectionAssumption[];
+  bands: ProjectionBand[];            // one per month, starting at startDate
+  targetProbability?: number;         // share of paths at or above the target at the horizon, 0-1
+  simulations: number;
+  seed: number;
+}
+
+// Change applied to every platform with a tag, or to one platform, in a stress test
+export interface StressShock {
+  target: 'tag' | 'platform';
+  name: string;
+  change: number;                     // percentage, e.g. -35 for a 35% drop
+}
+
+// Named set of shocks; presets ship with the app, custom ones are kept in the browser
+export interface StressScenario {
+  id: string;
+  name: string;
+  description?: string;
+  shocks: StressShock[];
+}
+
+// Effect of a stress scenario on the selected date's holdings
+export interface StressTestResult {
+  totalBefore: number;
+  totalAfter: number;
+  change: number;
+  changePercent: number;
+  platforms: Array<{
+    platform: string;
+    tag?: string;
+    before: number;
+    after: number;
+    change: number;                   // percentage applied (0 when no shock matched)
+  }>;
+  allocationShift: Array<{            // by tag, untagged platforms by name
+    name: string;
+    beforePercentage: number;
+    afterPercentage: number;
+  }>;
+  diversificationBefore: RiskAnalysisResult['diversificationMetrics'];
+  diversificationAfter: RiskAnalysisResult['diversificationMetrics'];
+  unmatchedShocks: StressShock[];     // shocks that apply to no holding
+}
+
+// Entry balance against the total of its security positions, in the entry's own currency
+export interface PositionReconciliation {
+  balance: number;
+  positionsTotal: number;
+  difference: number;   // balance − positions total
+  matches: boolean;     // within rounding
+}
+
+// Holding period of a tax lot: long-term once held for more than a year
+export type HoldingTerm = 'short' | 'long';
+
+// Units a platform bought on one date that are still held, valued at its latest unit price
+export interface TaxLot {
+  id: string;                   // open date, unique within the platform
+  platform: string;
+  openDate: string;
+  units: number;
+  costBasis: number;
+  value: number;
+  unrealizedGain: number;
+  term: HoldingTerm;            // by age on the as-of date
+  assumed?: boolean;            // balance of unknown cost (e.g. the first snapshot), taken at its value
+}
+
+// Part of a tax lot sold by a withdrawal or an outgoing transfer
+export interface RealizedLot {
+  platform: string;
+  lotId: string;
+  openDate: string;
+  closeDate: string;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;            // by age on the close date
+}
+
+// Cost basis and gains of one platform
+export interface PlatformCostBasis {
+  platform: string;
+  method: CostBasisMethod;
+  value: number;
+  costBasis: number;
+  unrealizedGain: number;
+  shortTermGain: number;        // unrealized, lots held a year or less
+  longTermGain: number;         // unrealized, lots held more than a year
+  realizedGain: number;
+  lots: TaxLot[];               // open lots, oldest first
+  realized: RealizedLot[];      // in date order
+  hasAssumedBasis: boolean;
+}
+
+// Cost basis of every platform with a positive balance history, as of a date
+export interface CostBasisSummary {
+  asOf: string;
+  platforms: PlatformCostBasis[];
+  totals: {
+    value: number;
+    costBasis: number;
+    unrealizedGain: number;
+    shortTermGain: number;
+    longTermGain: number;
+    realizedGain: number;
+  };
+}
+
+// One platform's figures for a tax year
+export interface TaxReportRow {
+  platform: string;
+  treatment: TaxTreatment;
+  proceeds: number;             // of lots sold in the year
+  costBasis: number;            // of lots sold in the year
+  shortTermGain: number;
+  longTermGain: number;
+  dividends: number;
+  interest: number;
+  contributions: number;        // money paid in during the year, transfers excluded
+}
+
+// Realized gains, income and contributions of a calendar year
+export interface TaxReport {
+  year: number;
+  currency?: string;
+  rows: TaxReportRow[];
+  realized: RealizedLot[];      // lots sold in the year, by date
+  taxable: {                    // sums over taxable platforms only
+    shortTermGain: number;
+    longTermGain: number;
+    dividends: number;
+    interest: number;
+  };
+  advantagedContributions: Record<Exclude<TaxTreatment, 'taxable'>, number>;
+}
+
+// Current holdings in one kind of account, broken down by asset class
+export interface AssetLocationGroup {
+  accountType?: AccountType;          // undefined for platforms without one
+  treatment: TaxTreatment;
+  value: number;
+  percentage: number;                 // of all positive holdings
+  platforms: string[];
+  assetClasses: Record<string, number>;
+}
+
+// Holding that would be taxed less in another kind of account
+export interface AssetLocationFlag {
+  id: string;
+  platform: string;
+  assetClass: string;
+  value: number;
+  swappable: number;                  // part that could trade places with holdings elsewhere
+  severity: Exclude<InsightSeverity, 'critical'>;
+  title: string;
+  description: string;
+}
+
+export interface AssetLocationResult {
+  groups: AssetLocationGroup[];       // largest first
+  flags: AssetLocationFlag[];
+}
+
+// One liability platform: a negative balance, with the entry's rate as its interest rate
+export interface LiabilityDetail {
+  platform: string;
+  balance: number;                    // amount owed, positive
+  previousBalance: number;            // amount owed at the comparison date
+  change: number;                     // negative when paid down
+  interestRate: number;               // annual percentage
+  annualInterest: number;             // interest a year at the current balance
+  securedBy?: string;                 // asset platform the loan is linked to
+}
+
+// An asset and the liabilities secured by it, e.g. a home and its mortgage
+export interface HomeEquity {
+  platform: string;                   // the asset
+  value: number;
+  debt: number;                       // sum of the linked liabilities
+  equity: number;                     // value minus debt
+  loanToValue: number;                // debt / value as a percentage
+  liabilities: string[];
+}
+
+export interface LiabilitySummary {
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  interestRate: number;               // weighted by balance
+  annualInterest: number;
+  liabilities: LiabilityDetail[];     // largest first
+  equity: HomeEquity[];
+}
+
+// Assets, liabilities and net worth on one date
+export interface NetWorthPoint {
+  date: string;
+  assets: number;
+  liabilities: number;                // amount owed, positive
+  netWorth: number;
+}
+
 // Comprehensive portfolio summary
 export interface PortfolioSummary {
   // Current state
@@ -116,12 +414,21 @@ export interface PortfolioSummary {
   goalProgress: GoalMetrics[];
   
   // Key insights
-  insights: Array<{
-    type: 'positive' | 'negative' | 'neutral';
-    title: string;
-    description: string;
-    actionable?: boolean;
-  }>;
+  insights: PortfolioInsight[];
+}
+
+// How urgently an insight needs attention
+export type InsightSeverity = 'info' | 'warning' | 'critical';
+
+// Finding of an insight rule (see analytics/insights)
+export interface PortfolioInsight {
+  id: string;           // rule id, plus the subject when a rule can fire for several (dismissals are kept per id)
+  rule: string;
+  severity: InsightSeverity;
+  type: 'positive' | 'negative' | 'neutral';
+  title: string;
+  description: string;
+  actionable?: boolean;
 }
 
 // Time period helpers
@@ -129,9 +436,13 @@ export type TimePeriod = '1M' | '3M' | '6M' | '1Y' | '2Y' | '3Y' | '5Y' | 'YTD'
 
 export interface PeriodMetrics {
   period: TimePeriod;
-  startDate: string;
+  startDate: string;    // base date: last recorded date on or before the period start
   endDate: string;
-  summary: PortfolioSummary;
+  startValue: number;
+  endValue: number;
+  performance: PerformanceMetrics;
+  cashFlow: CashFlowMetrics;
+  fullPeriod: boolean;  // false when the history starts after the period start
 }
 
 // Data point for time series analysis
@@ -145,11 +456,14 @@ export interface TimeSeriesPoint {
 // Enhanced summary that replaces the old AssetSummary
 export interface EnhancedAssetSummary {
   // Basic totals (backward compatible)
-  totalValue: number;
+  totalValue: number;          // net worth: assets minus liabilities
+  totalAssets: number;
+  totalLiabilities: number;    // amount owed, as a positive number
   totalPreviousValue: number;
   percentChange: number;
   absoluteChange: number;
-  avgRate: number;
+  avgRate: number;             // expected return of the assets
+  liabilityRate: number;       // interest rate of the liabilities
   largestHolding: {
     platform: string;
     amount: number;
@@ -161,23 +475,48 @@ export interface EnhancedAssetSummary {
     [platform: string]: {
       amount: number;
       rate: number;
-      percentage: number;
+      percentage: number;       // share of total assets, or of total liabilities for a liability
       previousAmount: number;
       percentChange: number;
-      absoluteChange: number;
+      absoluteChange: number;   // excludes money transferred in or out
+      transferFlow?: number;    // net transfers from other platforms this period
       
       // New fields
-      accountType?: string;
+      accountType?: AccountType;  // from the platform's metadata
       contributions?: number;
       benchmark?: string;
       performance?: PerformanceMetrics;
+      currency?: string;        // holding's own currency when reporting in a base currency
+      currencyEffect?: number;  // part of absoluteChange caused by exchange rates
     };
   };
   
   // New portfolio-level metrics
   portfolioMetrics?: PerformanceMetrics;
+  portfolioBenchmark?: string;  // benchmark used for portfolio alpha/beta
+  baseCurrency?: string;        // currency every amount is reported in
+  currencyAttribution?: {       // only set when some holdings are in another currency
+    assetEffect: number;
+    currencyEffect: number;
+    byCurrency: Record<string, { assetEffect: number; currencyEffect: number }>;
+  };
   cashFlowMetrics?: CashFlowMetrics;
+  timePeriod?: TimePeriod;            // window the performance and cash flow metrics cover
+  periodComparison?: PeriodMetrics[]; // every standard period ending on the selected date
   riskAnalysis?: RiskAnalysisResult; // Updated to new smart risk analysis
+  insights?: PortfolioInsight[];      // most severe first
+  
+  // Household view: each portfolio's share of the combined totals, keyed by portfolio name
+  portfolioBreakdown?: {
+    [portfolio: string]: {
+      value: number;
+      previousValue: number;
+      absoluteChange: number;
+      percentChange: number;
+      share: number;               // percentage of the household total
+      timeWeightedReturn?: number; // over the selected period up to the selected date
+    };
+  };
   
   // Diversification and rebalancing insights
   diversificationMetrics?: {
@@ -0,0 +1,43 @@
+// Runs the analytics engine off the main thread. Calls are queued and run one per task,
+// so a cancel sent while one call computes still removes the calls queued behind it.
+
+import { runAnalyticsMethod, type AnalyticsRequest, type AnalyticsResponse } from './rpc';
+
+// The worker's global scope; typed as the Worker interface, which has the same postMessage/onmessage
+const scope = self as unknown as Worker;
+
+const queue: Extract<AnalyticsRequest, { type: 'call' }>[] = [];
+let scheduled = false;
+
+const schedule = () => {
+  if (scheduled) return;
+  scheduled = true;
+  setTimeout(runNext, 0);
+};
+
+const runNext = () => {
+  scheduled = false;
+  const request = queue.shift();
+  if (!request) return;
+
+  let response: AnalyticsResponse;
+  try {
+    response = { id: request.id, result: runAnalyticsMethod(request.method, request.args) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  scope.postMessage(response);
+
+  if (queue.length > 0) schedule();
+};
+
+scope.onmessage = (event: MessageEvent<AnalyticsRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    const index = queue.findIndex(queued => queued.id === request.id);
+    if (index !== -1) queue.splice(index, 1);
+    return;
+  }
+  queue.push(request);
+  schedule();
+};
@@ -0,0 +1,89 @@
+import { openDB } from 'idb';
+import { describe, expect, it } from 'vitest';
+import { assetDb, backupDb, platformMetaDb, portfolioDb, DEFAULT_PORTFOLIO_ID } from '.';
+
+describe('schema upgrade', () => {
+  it('re-types negative contributions stored before version 8 as withdrawals', async () => {
+    const legacy = await openDB('homestead-db-legacy', 7, {
+      upgrade(db) {
+        const assets = db.createObjectStore('assets', { keyPath: 'id', autoIncrement: true });
+        assets.createIndex('by-date', 'date');
+        assets.createIndex('by-platform', 'platform');
+        assets.createIndex('by-transaction-type', 'transactionType');
+      }
+    });
+    await legacy.add('assets', { date: '2024-01-31', platform: 'Savings', amount: 500, rate: 2, transactionType: 'contribution', contributionAmount: -300 });
+    await legacy.add('assets', { date: '2024-02-29', platform: 'Savings', amount: 800, rate: 2, transactionType: 'contribution', contributionAmount: 300 });
+    legacy.close();
+
+    portfolioDb.activate('legacy');
+    try {
+      expect((await assetDb.getByTransactionType('withdrawal')).map(entry => entry.date)).toEqual(['2024-01-31']);
+      expect((await assetDb.getByTransactionType('contribution')).map(entry => entry.date)).toEqual(['2024-02-29']);
+    } finally {
+      portfolioDb.activate(DEFAULT_PORTFOLIO_ID);
+    }
+  });
+});
+
+describe('portfolioDb.movePlatform', () => {
+  it('finishes an interrupted move without duplicating the copied entries', async () => {
+    const from = { id: DEFAULT_PORTFOLIO_ID, name: 'Mine' };
+    const to = { id: 'joint', name: 'Joint' };
+    const entries = [
+      { date: '2024-01-31', platform: 'Savings', amount: 1000, rate: 3, transactionType: 'snapshot' as const },
+      { date: '2024-02-29', platform: 'Savings', amount: 1200, rate: 3, transactionType: 'snapshot' as const }
+    ];
+    await assetDb.importEntries(entries.map(entry => ({ entry })), from.id);
+    // A previous attempt copied the first entry before failing
+    await assetDb.importEntries([{ entry: entries[0] }], to.id);
+
+    await portfolioDb.movePlatform('Savings', from, to);
+
+    const target = await backupDb.exportAll(to.id);
+    expect(target.assets.map(entry => [entry.date, entry.amount])).toEqual([['2024-01-31', 1000], ['2024-02-29', 1200]]);
+    expect((await backupDb.exportAll(from.id)).assets).toHaveLength(0);
+  });
+
+  it('refuses to overwrite the target portfolio\'s own entries for the platform', async () => {
+    const from = { id: DEFAULT_PORTFOLIO_ID, name: 'Mine' };
+    const to = { id: 'partner', name: 'Partner' };
+    const entry = { date: '2024-01-31', platform: 'Checking', rate: 0, transactionType: 'snapshot' as const };
+    await assetDb.importEntries([{ entry: { ...entry, amount: 1000 } }], from.id);
+    await assetDb.importEntries([{ entry: { ...entry, amount: 9999 } }], to.id);
+    await platformMetaDb.update('Checking', { accountType: 'cash' }, from.id);
+    await platformMetaDb.update('Checking', { accountType: 'taxable' }, to.id);
+
+    await expect(portfolioDb.movePlatform('Checking', from, to)).rejects.toThrow('Partner already has entries for Checking');
+
+    const target = await backupDb.exportAll(to.id);
+    expect(target.assets.map(asset => asset.amount)).toEqual([9999]);
+    expect(target.platformMeta).toEqual([{ platform: 'Checking', accountType: 'taxable' }]);
+    expect((await backupDb.exportAll(from.id)).assets.map(asset => asset.amount)).toEqual([1000]);
+  });
+});
+
+describe('backupDb.importAll', () => {
+  it('skips merged positions whose entry is not in the snapshot', async () => {
+    const portfolioId = 'merge-target';
+    const entry = { platform: 'Stocks', rate: 7, transactionType: 'snapshot' as const };
+    await assetDb.importEntries([{ entry: { ...entry, date: '2024-01-31', amount: 1000 } }], portfolioId);
+    const snapshot = await backupDb.exportAll(portfolioId);
+    const [existing] = snapshot.assets;
+
+    const counts = await backupDb.importAll({
+      ...snapshot,
+      assets: [{ ...entry, id: 500, date: '2024-02-29', amount: 1100 }],
+      positions: [
+        { id: 1, entryId: 500, symbol: 'VTI', quantity: 4, price: 275 },
+        // Belongs to an entry of the backed-up database that shares the existing entry's id
+        { id: 2, entryId: existing.id!, symbol: 'BND', quantity: 10, price: 72 }
+      ]
+    }, 'merge', portfolioId);
+
+    expect(counts).toEqual({ added: 1, updated: 0, skippedPositions: 1 });
+    const restored = await backupDb.exportAll(portfolioId);
+    const added = restored.assets.find(asset => asset.date === '2024-02-29')!;
+    expect(restored.positions.map(position => [position.symbol, position.entryId])).toEqual([['VTI', added.id]]);
+  });
+});
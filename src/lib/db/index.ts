@@ -1,9 +1,38 @@
-import { openDB } from 'idb';
-import type { DBSchema } from 'idb';
+import { openDB, deleteDB } from 'idb';
+import type { DBSchema, IDBPDatabase, IDBPTransaction, OpenDBCallbacks, StoreNames } from 'idb';
 
-// Transaction types simplified to core use cases
-export type TransactionType = 'snapshot' | 'contribution';
+// What happened on an entry's date besides the balance being recorded.
+// Contributions, withdrawals and transfers move money in or out (contributionAmount);
+// dividends, interest and fees are part of the return (incomeAmount).
+export type TransactionType =
+  | 'snapshot'
+  | 'contribution'
+  | 'withdrawal'
+  | 'dividend'
+  | 'interest'
+  | 'fee'
+  | 'transfer';
 
+export const TRANSACTION_TYPES: TransactionType[] = [
+  'snapshot',
+  'contribution',
+  'withdrawal',
+  'dividend',
+  'interest',
+  'fee',
+  'transfer'
+];
+
+// How a withdrawal picks the tax lots it sells: oldest first, lots the user names, or the pooled average cost
+export type CostBasisMethod = 'fifo' | 'specific' | 'average';
+
+// How a platform's gains and income are taxed
+export type TaxTreatment = 'taxable' | 'tax-deferred' | 'tax-free';
+
+// Kind of account a platform is held in
+export type AccountType = 'taxable' | 'ira' | 'roth' | '401k' | 'hsa' | '529' | 'cash';
+
+export const ACCOUNT_TYPES: AccountType[] = ['taxable', 'ira', 'roth', '401k', 'hsa', '529', 'cash'];
 
 
 // Simplified AssetEntry interface
@@ -11,12 +40,21 @@ export interface AssetEntry {
   id?: number;
   date: string;  // YYYY-MM-DD format
   platform: string;
-  amount: number;
-  rate: number;
+  amount: number;  // negative for a liability (mortgage, loan, card balance)
+  rate: number;    // expected return %, or a liability's interest rate
+  currency?: string;  // ISO 4217 code of amount/contributionAmount; missing means DEFAULT_CURRENCY (utils/calculations)
   
   // Required fields for clean data model
   transactionType: TransactionType;
-  contributionAmount?: number;  // Required when transactionType is 'contribution'
+  contributionAmount?: number;  // Money moved in (+) or out (−): required for contribution (+), withdrawal (−) and transfer (±)
+  incomeAmount?: number;        // Return already included in amount: dividend/interest (+) or fee (−)
+  
+  // Transfers between platforms are stored as two linked entries (see assetDb.addTransfer)
+  transferId?: string;          // shared by both legs
+  transferPlatform?: string;    // platform of the other leg
+  
+  // Specific-ID cost basis: open dates of the tax lots a withdrawal sells, in order
+  closesLots?: string[];
   
   // Optional fields
   notes?: string;
@@ -25,7 +63,138 @@ export interface AssetEntry {
   dataQuality?: 'snapshot_only' | 'enhanced';
 }
 
+// Exchange rate on a date: 1 unit of `from` is worth `rate` units of `to`
+export interface FxRate {
+  from: string;  // ISO 4217 code
+  to: string;    // ISO 4217 code
+  date: string;  // YYYY-MM-DD format
+  rate: number;
+}
+
+// Which part of the portfolio a goal tracks
+export type GoalScope = 'portfolio' | 'platforms' | 'tags';
+
+// Savings goal, e.g. "House down payment" or "Retirement"
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string;  // YYYY-MM-DD format
+  
+  // 'portfolio' tracks everything; otherwise scopeValues lists platform names or tags
+  scope: GoalScope;
+  scopeValues: string[];
+  
+  notes?: string;
+  createdAt: string;
+}
+
+// Daily/monthly level of a market index
+export interface BenchmarkPoint {
+  date: string;  // YYYY-MM-DD format
+  value: number;
+}
+
+// Named index series such as "S&P 500" or "US Aggregate Bond"
+export interface BenchmarkSeries {
+  name: string;
+  points: BenchmarkPoint[];  // sorted by date
+  importedAt: string;
+}
+
+// Per-platform settings that aren't part of individual entries
+export interface PlatformMeta {
+  platform: string;
+  benchmark?: string;  // name of a BenchmarkSeries
+  statementAccount?: string;  // OFX/QFX account id whose statements import into this platform
+  costBasisMethod?: CostBasisMethod;  // missing means 'fifo'
+  taxTreatment?: TaxTreatment;  // missing means the account type's treatment, else 'taxable'
+  accountType?: AccountType;
+  securedBy?: string;  // for a liability, the asset platform it is secured by (a mortgage's home)
+}
+
+// Entry fields an import column can be mapped to
+export type ImportField = 'Date' | 'Platform' | 'Amount' | 'Rate' | 'ContributionAmount' | 'IncomeAmount' | 'Currency' | 'Notes';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+
+// Saved column mapping for another tool's CSV export, e.g. a bank's monthly statement
+export interface ImportPreset {
+  name: string;
+  headers: string[];                                  // header row of the file it was made for
+  columns: Partial<Record<ImportField, string>>;      // field → header
+  platform?: string;                                  // used when no column is mapped to Platform
+  dateFormat: ImportDateFormat;
+  decimalSeparator: '.' | ',';
+}
+
+// One side of a transfer: the platform and its balance after the transfer, in its own currency
+export interface TransferLeg {
+  platform: string;
+  amount: number;          // money leaving (source) or arriving (destination), as a positive number
+  balance: number;
+  rate: number;
+  currency?: string;
+}
+
+// Security held inside a platform's entry, e.g. 12 shares of VTI; valued in the entry's currency
+export interface Position {
+  id?: number;
+  entryId: number;       // parent AssetEntry
+  symbol: string;        // ticker, or a short name for holdings without one
+  name?: string;
+  quantity: number;
+  price: number;         // per unit on the entry's date
+  assetClass?: string;   // e.g. Equities, Bonds, Cash
+}
+
+// Target weight for a platform or a tag group
+export interface TargetAllocation {
+  groupBy: 'platform' | 'tag';
+  name: string;    // platform name or tag
+  target: number;  // percentage of the total portfolio, e.g. 40 for 40%
+}
+
+
+
+// Records of every object store, as written to and read from a full backup
+export interface DatabaseSnapshot {
+  assets: AssetEntry[];
+  platformTags: { platform: string; tag: string }[];
+  goals: Goal[];
+  targetAllocations: TargetAllocation[];
+  benchmarks: BenchmarkSeries[];
+  platformMeta: PlatformMeta[];
+  fxRates: FxRate[];
+  importPresets: ImportPreset[];
+  positions: Position[];
+}
+
+// A named portfolio; each one is kept in its own database (see portfolioDb)
+export interface Portfolio {
+  id: string;
+  name: string;
+}
+
+// Kind of write recorded in the change journal
+export type JournalAction = 'add' | 'update' | 'delete' | 'transfer' | 'import' | 'clear' | 'undo' | 'redo' | 'revert';
+
+// Before and after image of one asset entry: no `before` means it was added, no `after` that it was deleted
+export interface JournalChange {
+  id: number;
+  before?: AssetEntry;
+  after?: AssetEntry;
+}
 
+// Append-only record of one user action, which may touch several entries
+export interface JournalRecord {
+  id?: number;
+  timestamp: string;  // ISO date-time
+  action: JournalAction;
+  description: string;
+  changes: JournalChange[];
+  sourceId?: number;  // undo, redo and revert: the record whose changes were reversed or re-applied
+}
 
 // Define the database schema
 interface HomesteadDB extends DBSchema {
@@ -36,12 +205,48 @@ interface HomesteadDB extends DBSchema {
       'by-date': string;
       'by-platform': string;
       'by-transaction-type': TransactionType;
+      'by-transfer': string;
     };
   };
   platformTags: {
     key: string; // platform name
     value: { platform: string; tag: string };
   };
+  goals: {
+    key: string; // goal id
+    value: Goal;
+  };
+  targetAllocations: {
+    key: [string, string]; // [groupBy, name]
+    value: TargetAllocation;
+  };
+  benchmarks: {
+    key: string; // series name
+    value: BenchmarkSeries;
+  };
+  platformMeta: {
+    key: string; // platform name
+    value: PlatformMeta;
+  };
+  fxRates: {
+    key: [string, string, string]; // [from, to, date]
+    value: FxRate;
+  };
+  journal: {
+    key: number;
+    value: JournalRecord;
+  };
+  importPresets: {
+    key: string; // preset name
+    value: ImportPreset;
+  };
+  positions: {
+    key: number;
+    value: Position;
+    indexes: {
+      'by-entry': number;
+    };
+  };
 }
 
 // List of allowed platforms
@@ -63,30 +268,53 @@ export const ALLOWED_PLATFORMS = [
 
 // DB name and version
 const DB_NAME = 'homestead-db';
-const DB_VERSION = 3; // Incrementing for new schema
+export const DB_VERSION = 12; // Incrementing for new schema
+
+// The first portfolio keeps the original database, so existing data needs no migration
+export const DEFAULT_PORTFOLIO_ID = 'default';
+
+// Stores included in a full backup, in DatabaseSnapshot order
+const SNAPSHOT_STORES = [
+  'assets',
+  'platformTags',
+  'goals',
+  'targetAllocations',
+  'benchmarks',
+  'platformMeta',
+  'fxRates',
+  'importPresets',
+  'positions'
+] as const;
 
 // Migration helper to add default values for existing entries
 const migrateAssetEntry = (entry: any): AssetEntry => {
   // Determine data quality based on available information
   let dataQuality: 'snapshot_only' | 'enhanced' = 'snapshot_only';
   
-  if (entry.contributionAmount !== undefined || entry.transactionType === 'contribution') {
+  if (entry.contributionAmount !== undefined || entry.incomeAmount !== undefined ||
+      (entry.transactionType && entry.transactionType !== 'snapshot')) {
     dataQuality = 'enhanced';
   } else if (entry.dataQuality === 'enhanced') {
     dataQuality = 'enhanced';
   }
   
+  // Backups made before version 8 store withdrawals as contributions with a negative amount
+  let transactionType: TransactionType = entry.transactionType || 'snapshot';
+  if (transactionType === 'contribution' && entry.contributionAmount < 0) {
+    transactionType = 'withdrawal';
+  }
+  
   return {
     ...entry,
-    transactionType: entry.transactionType || 'snapshot',
+    transactionType,
     dataQuality,
     // Don't set defaults for contributionAmount, notes - keep them undefined
   };
 };
 
-// Open the database
-export const dbPromise = openDB<HomesteadDB>(DB_NAME, DB_VERSION, {
-  upgrade(db, oldVersion, newVersion, transaction) {
+// Schema upgrades, run when any portfolio's database is opened
+const openCallbacks: OpenDBCallbacks<HomesteadDB> = {
+  async upgrade(db, oldVersion, newVersion, transaction) {
     if (oldVersion < 1) {
       // Create the assets store
       const assetStore = db.createObjectStore('assets', { 
@@ -121,37 +349,244 @@ export const dbPromise = openDB<HomesteadDB>(DB_NAME, DB_VERSION, {
 
 
       }
+
+    if (oldVersion < 4) {
+      // Create the goals store
+      db.createObjectStore('goals', { keyPath: 'id' });
+    }
+
+    if (oldVersion < 5) {
+      // Create the target allocations store
+      db.createObjectStore('targetAllocations', { keyPath: ['groupBy', 'name'] });
+    }
+
+    if (oldVersion < 6) {
+      // Create the benchmark series and platform metadata stores
+      db.createObjectStore('benchmarks', { keyPath: 'name' });
+      db.createObjectStore('platformMeta', { keyPath: 'platform' });
+    }
+
+    if (oldVersion < 7) {
+      // Create the exchange rate store
+      db.createObjectStore('fxRates', { keyPath: ['from', 'to', 'date'] });
+    }
+
+    if (oldVersion < 9) {
+      // Look up both legs of a transfer
+      transaction.objectStore('assets').createIndex('by-transfer', 'transferId');
+    }
+
+    if (oldVersion < 10) {
+      // Create the change journal (not part of backups)
+      db.createObjectStore('journal', { keyPath: 'id', autoIncrement: true });
+    }
+
+    if (oldVersion < 11) {
+      // Create the CSV column mapping presets store
+      db.createObjectStore('importPresets', { keyPath: 'name' });
+    }
+
+    if (oldVersion < 12) {
+      // Create the security positions store, looked up by parent entry
+      const positionStore = db.createObjectStore('positions', { keyPath: 'id', autoIncrement: true });
+      positionStore.createIndex('by-entry', 'entryId');
+    }
+
+    if (oldVersion > 0 && oldVersion < 8) {
+      // Explicit transaction types: re-type negative contributions as withdrawals.
+      // Last, because the schema changes above must not wait on these requests.
+      const assetStore = transaction.objectStore('assets');
+      const entries = await assetStore.getAll();
+      await Promise.all(entries
+        .filter(entry => entry.transactionType === 'contribution' && (entry.contributionAmount ?? 0) < 0)
+        .map(entry => assetStore.put({ ...entry, transactionType: 'withdrawal' })));
+    }
   },
-});
+};
+
+const databaseName = (portfolioId: string) =>
+  portfolioId === DEFAULT_PORTFOLIO_ID ? DB_NAME : `${DB_NAME}-${portfolioId}`;
+
+const openDatabases = new Map<string, Promise<IDBPDatabase<HomesteadDB>>>();
+
+// Open a portfolio's database (once)
+const getDatabase = (portfolioId: string) => {
+  let database = openDatabases.get(portfolioId);
+  if (!database) {
+    database = openDB<HomesteadDB>(databaseName(portfolioId), DB_VERSION, openCallbacks);
+    openDatabases.set(portfolioId, database);
+  }
+  return database;
+};
+
+// Database of the active portfolio; the helpers below use it unless given a portfolio id
+export let dbPromise = getDatabase(DEFAULT_PORTFOLIO_ID);
+
+const databaseFor = (portfolioId?: string) => portfolioId ? getDatabase(portfolioId) : dbPromise;
+
+// Asset writes and their journal record commit together, with any other stores the write touches
+type JournaledTransaction<Extra extends StoreNames<HomesteadDB> = never> =
+  IDBPTransaction<HomesteadDB, ('assets' | 'journal' | Extra)[], 'readwrite'>;
+
+const openJournaledTransaction = async <Extra extends StoreNames<HomesteadDB> = never>(
+  portfolioId?: string,
+  extraStores: Extra[] = []
+): Promise<JournaledTransaction<Extra>> =>
+  (await databaseFor(portfolioId)).transaction(['assets', 'journal', ...extraStores], 'readwrite');
+
+// Append the record describing the transaction's writes and wait for it to commit
+const commitJournal = async <Extra extends StoreNames<HomesteadDB>>(
+  tx: JournaledTransaction<Extra>,
+  action: JournalAction,
+  description: string,
+  changes: JournalChange[],
+  sourceId?: number
+): Promise<JournalRecord> => {
+  const record: JournalRecord = { timestamp: new Date().toISOString(), action, description, changes, sourceId };
+  const [id] = await Promise.all([tx.objectStore('journal').add(record), tx.done]);
+  return { ...record, id };
+};
+
+const describeEntry = (entry: Pick<AssetEntry, 'platform' | 'date'>) => `${entry.platform} on ${entry.date}`;
+
+// Whether two stored images are the same, ignoring property order
+const isSameEntry = (a?: AssetEntry, b?: AssetEntry): boolean => {
+  if (!a || !b) return a === b;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return JSON.stringify(a, keys) === JSON.stringify(b, keys);
+};
 
 // Asset database operations (enhanced)
+// Every write is journaled with before and after images (see journalDb) and returns its journal record.
 export const assetDb = {
   // Add a new asset entry
   async add(entry: Omit<AssetEntry, 'id'>) {
+    const tx = await openJournaledTransaction();
     const enhancedEntry = migrateAssetEntry(entry);
-    return (await dbPromise).add('assets', enhancedEntry as AssetEntry);
+    const id = await tx.objectStore('assets').add(enhancedEntry as AssetEntry);
+    return commitJournal(tx, 'add', `Added ${describeEntry(enhancedEntry)}`, [{ id, after: { ...enhancedEntry, id } }]);
   },
   
   // Add multiple asset entries in a transaction
   async addMultiple(entries: Omit<AssetEntry, 'id'>[]) {
-    const db = await dbPromise;
-    const tx = db.transaction('assets', 'readwrite');
-    const enhancedEntries = entries.map(entry => migrateAssetEntry(entry));
-    await Promise.all([
-      ...enhancedEntries.map(entry => tx.store.add(entry as AssetEntry)),
-      tx.done
-    ]);
+    return this.importEntries(entries.map(entry => ({ entry })));
+  },
+  
+  /**
+   * Write an import in one transaction: entries with `replaceId` overwrite that entry, the rest are added.
+   * If any write fails the transaction aborts and nothing is saved.
+   */
+  async importEntries(rows: { entry: Omit<AssetEntry, 'id'>; replaceId?: number }[], portfolioId?: string) {
+    const tx = await openJournaledTransaction(portfolioId);
+    const store = tx.objectStore('assets');
+    const changes: JournalChange[] = [];
+    
+    for (const { entry, replaceId } of rows) {
+      if (replaceId !== undefined) {
+        const before = await store.get(replaceId);
+        const after = migrateAssetEntry({ ...entry, id: replaceId });
+        await store.put(after);
+        changes.push({ id: replaceId, before, after });
+      } else {
+        const after = migrateAssetEntry(entry);
+        const id = await store.add(after);
+        changes.push({ id, after: { ...after, id } });
+      }
+    }
+    
+    return commitJournal(tx, 'import', `Imported ${rows.length} ${rows.length === 1 ? 'entry' : 'entries'}`, changes);
   },
   
   // Update an existing asset entry
   async update(entry: AssetEntry) {
+    const tx = await openJournaledTransaction();
+    const store = tx.objectStore('assets');
+    const before = entry.id !== undefined ? await store.get(entry.id) : undefined;
     const enhancedEntry = migrateAssetEntry(entry);
-    return (await dbPromise).put('assets', enhancedEntry);
+    const id = await store.put(enhancedEntry);
+    return commitJournal(tx, 'update', `Edited ${describeEntry(enhancedEntry)}`, [{ id, before, after: { ...enhancedEntry, id } }]);
   },
   
   // Delete an asset entry by ID
   async delete(id: number) {
-    return (await dbPromise).delete('assets', id);
+    const tx = await openJournaledTransaction();
+    const store = tx.objectStore('assets');
+    const before = await store.get(id);
+    await store.delete(id);
+    return commitJournal(
+      tx,
+      'delete',
+      `Deleted ${before ? describeEntry(before) : 'entry'}`,
+      before ? [{ id, before }] : []
+    );
+  },
+  
+  /**
+   * Record a transfer as two linked entries in one transaction.
+   * A leg goes onto the platform's existing snapshot for that date if there is one;
+   * a platform that already has another transaction on the date is rejected.
+   */
+  async addTransfer(date: string, source: TransferLeg, destination: TransferLeg) {
+    const tx = await openJournaledTransaction();
+    const store = tx.objectStore('assets');
+    const transferId = `transfer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const sameDay = await store.index('by-date').getAll(date);
+    
+    const legs: [TransferLeg, number, string][] = [
+      [source, -source.amount, destination.platform],
+      [destination, destination.amount, source.platform]
+    ];
+    
+    const existingEntries = legs.map(([leg]) => sameDay.find(entry => entry.platform === leg.platform));
+    const conflict = existingEntries.find(entry => entry && (entry.transactionType || 'snapshot') !== 'snapshot');
+    if (conflict) {
+      throw new Error(`${conflict.platform} already has a ${conflict.transactionType} on ${date}`);
+    }
+    
+    const changes: JournalChange[] = [];
+    for (const [index, [leg, flow, otherPlatform]] of legs.entries()) {
+      const existing = existingEntries[index];
+      const entry = migrateAssetEntry({
+        ...existing,
+        date,
+        platform: leg.platform,
+        amount: leg.balance,
+        rate: leg.rate,
+        currency: leg.currency,
+        transactionType: 'transfer',
+        contributionAmount: flow,
+        incomeAmount: undefined,
+        transferId,
+        transferPlatform: otherPlatform
+      });
+      const id = existing ? await store.put(entry) : await store.add(entry);
+      changes.push({ id, before: existing, after: { ...entry, id } });
+    }
+    
+    return commitJournal(tx, 'transfer', `Transfer ${source.platform} → ${destination.platform} on ${date}`, changes);
+  },
+  
+  // Both legs of a transfer
+  async getTransfer(transferId: string): Promise<AssetEntry[]> {
+    const entries = await (await dbPromise).getAllFromIndex('assets', 'by-transfer', transferId);
+    return entries.map(migrateAssetEntry);
+  },
+  
+  // Delete both legs of a transfer in one transaction
+  async deleteTransfer(transferId: string) {
+    const tx = await openJournaledTransaction();
+    const store = tx.objectStore('assets');
+    const legs = await store.index('by-transfer').getAll(transferId);
+    for (const leg of legs) {
+      await store.delete(leg.id!);
+    }
+    const platforms = legs.map(leg => leg.platform).join(' → ');
+    return commitJournal(
+      tx,
+      'delete',
+      `Deleted transfer ${platforms}${legs[0] ? ` on ${legs[0].date}` : ''}`,
+      legs.map(leg => ({ id: leg.id!, before: leg }))
+    );
   },
   
   // Get all asset entries (with migration)
@@ -167,8 +602,8 @@ export const assetDb = {
   },
   
   // Get entries for a specific date
-  async getByDate(date: string): Promise<AssetEntry[]> {
-    const db = await dbPromise;
+  async getByDate(date: string, portfolioId?: string): Promise<AssetEntry[]> {
+    const db = await databaseFor(portfolioId);
     const index = db.transaction('assets').store.index('by-date');
     const entries = await index.getAll(date);
     return entries.map(migrateAssetEntry);
@@ -207,9 +642,18 @@ export const assetDb = {
     return [...uniqueDates].sort();
   },
   
-  // Clear all assets from the database
+  // Clear all assets from the database (the journal keeps them, so this can be undone)
   async clear() {
-    return (await dbPromise).clear('assets');
+    const tx = await openJournaledTransaction();
+    const store = tx.objectStore('assets');
+    const entries = await store.getAll();
+    await store.clear();
+    return commitJournal(
+      tx,
+      'clear',
+      `Cleared ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`,
+      entries.map(entry => ({ id: entry.id!, before: entry }))
+    );
   },
   
   // Count the number of asset entries
@@ -249,4 +693,426 @@ export const platformTagDb = {
   async clear() {
     return (await dbPromise).clear('platformTags');
   },
-};
\ No newline at end of file
+};
+
+// Goal database operations
+export const goalDb = {
+  async put(goal: Goal) {
+    return (await dbPromise).put('goals', goal);
+  },
+
+  async delete(id: string) {
+    return (await dbPromise).delete('goals', id);
+  },
+
+  async getAll(): Promise<Goal[]> {
+    return (await dbPromise).getAll('goals');
+  },
+
+  async clear() {
+    return (await dbPromise).clear('goals');
+  },
+};
+
+
+// Target allocation database operations
+export const targetAllocationDb = {
+  async set(groupBy: TargetAllocation['groupBy'], name: string, target: number | null) {
+    if (target === null) {
+      return this.delete(groupBy, name);
+    }
+    return (await dbPromise).put('targetAllocations', { groupBy, name, target });
+  },
+
+  async delete(groupBy: TargetAllocation['groupBy'], name: string) {
+    return (await dbPromise).delete('targetAllocations', [groupBy, name]);
+  },
+
+  async getAll(): Promise<TargetAllocation[]> {
+    return (await dbPromise).getAll('targetAllocations');
+  },
+
+  async clear() {
+    return (await dbPromise).clear('targetAllocations');
+  },
+};
+
+// Benchmark series database operations
+export const benchmarkDb = {
+  async put(series: BenchmarkSeries) {
+    return (await dbPromise).put('benchmarks', series);
+  },
+
+  async delete(name: string) {
+    return (await dbPromise).delete('benchmarks', name);
+  },
+
+  async getAll(): Promise<BenchmarkSeries[]> {
+    return (await dbPromise).getAll('benchmarks');
+  },
+
+  async clear() {
+    return (await dbPromise).clear('benchmarks');
+  },
+};
+
+// Platform metadata database operations
+export const platformMetaDb = {
+  // Merge changes into the platform's existing metadata, in the given portfolio or the active one
+  async update(platform: string, changes: Partial<Omit<PlatformMeta, 'platform'>>, portfolioId?: string): Promise<PlatformMeta> {
+    const db = await databaseFor(portfolioId);
+    const existing = await db.get('platformMeta', platform);
+    const meta: PlatformMeta = { ...existing, ...changes, platform };
+    await db.put('platformMeta', meta);
+    return meta;
+  },
+
+  async delete(platform: string) {
+    return (await dbPromise).delete('platformMeta', platform);
+  },
+
+  async getAll(): Promise<Record<string, PlatformMeta>> {
+    const allMeta = await (await dbPromise).getAll('platformMeta');
+    return allMeta.reduce((acc, meta) => {
+      acc[meta.platform] = meta;
+      return acc;
+    }, {} as Record<string, PlatformMeta>);
+  },
+
+  async clear() {
+    return (await dbPromise).clear('platformMeta');
+  },
+};
+
+// Exchange rate database operations
+export const fxRateDb = {
+  // Save rates in one transaction, replacing existing rates for the same pair and date
+  async putMany(rates: FxRate[]) {
+    const tx = (await dbPromise).transaction('fxRates', 'readwrite');
+    await Promise.all([...rates.map(rate => tx.store.put(rate)), tx.done]);
+  },
+
+  // Remove every rate for a currency pair
+  async deletePair(from: string, to: string) {
+    const db = await dbPromise;
+    const range = IDBKeyRange.bound([from, to, ''], [from, to, '\uffff']);
+    const keys = await db.getAllKeys('fxRates', range);
+    const tx = db.transaction('fxRates', 'readwrite');
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done]);
+  },
+
+  async getAll(): Promise<FxRate[]> {
+    return (await dbPromise).getAll('fxRates');
+  },
+
+  async clear() {
+    return (await dbPromise).clear('fxRates');
+  },
+};
+
+// CSV column mapping presets
+export const importPresetDb = {
+  async put(preset: ImportPreset) {
+    return (await dbPromise).put('importPresets', preset);
+  },
+
+  async delete(name: string) {
+    return (await dbPromise).delete('importPresets', name);
+  },
+
+  async getAll(): Promise<ImportPreset[]> {
+    return (await dbPromise).getAll('importPresets');
+  },
+};
+
+// Security positions of entries. Deleting an entry leaves its positions in place, so undoing
+// the delete (which restores the entry under the same id) brings them back; positions whose
+// entry no longer exists are ignored.
+export const positionDb = {
+  // Replace every position of an entry in one transaction
+  async setForEntry(entryId: number, positions: Omit<Position, 'id' | 'entryId'>[]): Promise<Position[]> {
+    const tx = (await dbPromise).transaction('positions', 'readwrite');
+    const existingKeys = await tx.store.index('by-entry').getAllKeys(entryId);
+    await Promise.all(existingKeys.map(key => tx.store.delete(key)));
+    const saved: Position[] = [];
+    for (const position of positions) {
+      const record: Position = { ...position, entryId };
+      const id = await tx.store.add(record);
+      saved.push({ ...record, id });
+    }
+    await tx.done;
+    return saved;
+  },
+
+  async getByEntry(entryId: number): Promise<Position[]> {
+    return (await dbPromise).getAllFromIndex('positions', 'by-entry', entryId);
+  },
+
+  async getAll(): Promise<Position[]> {
+    return (await dbPromise).getAll('positions');
+  },
+
+  async clear() {
+    return (await dbPromise).clear('positions');
+  },
+};
+
+// Change journal: browse past writes and reverse or re-apply them
+export const journalDb = {
+  // Every record, newest first
+  async getAll(): Promise<JournalRecord[]> {
+    const records = await (await dbPromise).getAll('journal');
+    return records.reverse();
+  },
+  
+  /**
+   * Reverse a record (undo, revert) by writing its before images, or re-apply it (redo) by writing
+   * its after images, in one transaction. Each entry must still look the way the record expects;
+   * if another change touched it since, nothing is written and an error names the entry.
+   * The reversal is journaled as a new record pointing at the original.
+   */
+  async apply(sourceId: number, action: 'undo' | 'redo' | 'revert', portfolioId?: string) {
+    const tx = await openJournaledTransaction(portfolioId);
+    const store = tx.objectStore('assets');
+    const source = await tx.objectStore('journal').get(sourceId);
+    if (!source) {
+      throw new Error('This change is no longer in the history');
+    }
+    
+    const forward = action === 'redo';
+    const changes: JournalChange[] = source.changes.map(change => ({
+      id: change.id,
+      before: forward ? change.before : change.after,
+      after: forward ? change.after : change.before
+    }));
+    
+    for (const change of changes) {
+      const current = await store.get(change.id);
+      if (!isSameEntry(current, change.before)) {
+        const entry = (current || change.before || change.after)!;
+        throw new Error(`${describeEntry(entry)} has changed since; undo the later change first`);
+      }
+    }
+    
+    for (const change of changes) {
+      if (change.after) {
+        await store.put(change.after);
+      } else {
+        await store.delete(change.id);
+      }
+    }
+    
+    const verb = action === 'undo' ? 'Undid' : action === 'redo' ? 'Redid' : 'Reverted';
+    return commitJournal(tx, action, `${verb}: ${source.description}`, changes, sourceId);
+  },
+};
+
+// Full backup operations across every object store
+export const backupDb = {
+  // Read every store in one transaction so the snapshot is consistent
+  async exportAll(portfolioId?: string): Promise<DatabaseSnapshot> {
+    const tx = (await databaseFor(portfolioId)).transaction([...SNAPSHOT_STORES], 'readonly');
+    const [assets, platformTags, goals, targetAllocations, benchmarks, platformMeta, fxRates, importPresets, positions] = await Promise.all([
+      tx.objectStore('assets').getAll(),
+      tx.objectStore('platformTags').getAll(),
+      tx.objectStore('goals').getAll(),
+      tx.objectStore('targetAllocations').getAll(),
+      tx.objectStore('benchmarks').getAll(),
+      tx.objectStore('platformMeta').getAll(),
+      tx.objectStore('fxRates').getAll(),
+      tx.objectStore('importPresets').getAll(),
+      tx.objectStore('positions').getAll()
+    ]);
+    await tx.done;
+    return {
+      assets: assets.map(migrateAssetEntry),
+      platformTags,
+      goals,
+      targetAllocations,
+      benchmarks,
+      platformMeta,
+      fxRates,
+      importPresets,
+      positions
+    };
+  },
+
+  /**
+   * Write a snapshot in one transaction.
+   * 'replace' clears every store first. 'merge' keeps existing records and lets the snapshot win
+   * on matching keys; asset entries are matched by date and platform rather than by id, and
+   * the positions of a merged entry replace the ones it had. Positions whose entry is not in the
+   * snapshot are skipped, since their entry id belongs to another database.
+   * Returns the number of asset entries added and updated, and of positions skipped.
+   */
+  async importAll(
+    snapshot: DatabaseSnapshot,
+    mode: 'merge' | 'replace',
+    portfolioId?: string
+  ): Promise<{ added: number; updated: number; skippedPositions: number }> {
+    const tx = (await databaseFor(portfolioId)).transaction([...SNAPSHOT_STORES], 'readwrite');
+    const assetStore = tx.objectStore('assets');
+    const writes: Promise<unknown>[] = [];
+    const positionStore = tx.objectStore('positions');
+    let added = 0;
+    let updated = 0;
+    let skippedPositions = 0;
+
+    if (mode === 'replace') {
+      await Promise.all(SNAPSHOT_STORES.map(name => tx.objectStore(name).clear()));
+      for (const entry of snapshot.assets) {
+        writes.push(assetStore.put(migrateAssetEntry(entry)));
+        added++;
+      }
+      snapshot.positions.forEach(position => writes.push(positionStore.put(position)));
+    } else {
+      // Snapshot entry id → id of the entry it was merged into
+      const entryIds = new Map<number, number>();
+      const existing = await assetStore.getAll();
+      const existingByKey = new Map(existing.map(entry => [`${entry.date}|${entry.platform}`, entry]));
+      for (const { id, ...entry } of snapshot.assets) {
+        const match = existingByKey.get(`${entry.date}|${entry.platform}`);
+        if (match) {
+          const merged = migrateAssetEntry({ ...entry, id: match.id });
+          // Leave entries that already match alone, such as those an undo of "Clear all data" restored
+          if (!isSameEntry(merged, migrateAssetEntry(match))) {
+            writes.push(assetStore.put(merged));
+          }
+          if (id !== undefined) entryIds.set(id, match.id!);
+          updated++;
+        } else {
+          writes.push(assetStore.add(migrateAssetEntry(entry)).then(newId => {
+            if (id !== undefined) entryIds.set(id, newId);
+          }));
+          added++;
+        }
+      }
+      await Promise.all(writes);
+
+      const positionsByEntry = new Map<number, Position[]>();
+      for (const { id: _id, ...position } of snapshot.positions) {
+        const entryId = entryIds.get(position.entryId);
+        if (entryId === undefined) {
+          skippedPositions++;
+          continue;
+        }
+        positionsByEntry.set(entryId, [...(positionsByEntry.get(entryId) || []), { ...position, entryId }]);
+      }
+      for (const [entryId, positions] of positionsByEntry) {
+        const replacedKeys = await positionStore.index('by-entry').getAllKeys(entryId);
+        replacedKeys.forEach(key => writes.push(positionStore.delete(key)));
+        positions.forEach(position => writes.push(positionStore.add(position)));
+      }
+    }
+
+    snapshot.platformTags.forEach(tag => writes.push(tx.objectStore('platformTags').put(tag)));
+    snapshot.goals.forEach(goal => writes.push(tx.objectStore('goals').put(goal)));
+    snapshot.targetAllocations.forEach(target => writes.push(tx.objectStore('targetAllocations').put(target)));
+    snapshot.benchmarks.forEach(series => writes.push(tx.objectStore('benchmarks').put(series)));
+    snapshot.platformMeta.forEach(meta => writes.push(tx.objectStore('platformMeta').put(meta)));
+    snapshot.fxRates.forEach(rate => writes.push(tx.objectStore('fxRates').put(rate)));
+    snapshot.importPresets.forEach(preset => writes.push(tx.objectStore('importPresets').put(preset)));
+
+    await Promise.all([...writes, tx.done]);
+    return { added, updated, skippedPositions };
+  },
+};
+
+// Portfolio databases: switching, deleting, and moving platforms between them
+export const portfolioDb = {
+  // Point the helpers at another portfolio's database
+  activate(portfolioId: string) {
+    dbPromise = getDatabase(portfolioId);
+  },
+
+  // Delete a portfolio's database and everything in it
+  async remove(portfolioId: string) {
+    const database = openDatabases.get(portfolioId);
+    if (database) {
+      (await database).close();
+      openDatabases.delete(portfolioId);
+    }
+    await deleteDB(databaseName(portfolioId));
+  },
+
+  /**
+   * Move every entry of a platform, with its positions, tag and metadata, from one portfolio to another.
+   * Transfers with platforms that stay behind become a withdrawal and a contribution.
+   * The target is written in one transaction and the source cleared in a second one, so a failure
+   * in between leaves a copy rather than losing entries. Moving again finishes the move: target
+   * entries identical to ones being moved are taken as that copy. Any other entry of the platform
+   * in the target stops the move, and the target's own tag and metadata are kept.
+   * Returns the journal record of the source portfolio.
+   */
+  async movePlatform(platform: string, from: Portfolio, to: Portfolio) {
+    const source = await getDatabase(from.id);
+    const entries = (await source.getAllFromIndex('assets', 'by-platform', platform)).map(migrateAssetEntry);
+    const unlink = (entry: AssetEntry): AssetEntry => {
+      const { transferId: _transferId, transferPlatform: _transferPlatform, ...rest } = entry;
+      return { ...rest, transactionType: (entry.contributionAmount ?? 0) < 0 ? 'withdrawal' : 'contribution' };
+    };
+    const isExternalTransfer = (entry: AssetEntry) =>
+      entry.transactionType === 'transfer' && !!entry.transferPlatform && entry.transferPlatform !== platform;
+    const moved = entries.map(({ id: _id, ...entry }) => isExternalTransfer(entry) ? unlink(entry) : entry);
+    const [positions, tag, meta] = await Promise.all([
+      Promise.all(entries.map(entry => source.getAllFromIndex('positions', 'by-entry', entry.id!))),
+      source.get('platformTags', platform),
+      source.get('platformMeta', platform)
+    ]);
+
+    // Target: add the entries, their positions, tag and metadata together
+    const targetTx = await openJournaledTransaction(to.id, ['positions', 'platformTags', 'platformMeta']);
+    const targetStore = targetTx.objectStore('assets');
+    const copies = (await targetStore.index('by-platform').getAll(platform)).map(migrateAssetEntry);
+    const copyIndexes = moved.map(entry => copies.findIndex(copy => isSameEntry({ ...entry, id: copy.id }, copy)));
+    if (copies.some((_copy, index) => !copyIndexes.includes(index))) {
+      throw new Error(`${to.name} already has entries for ${platform}`);
+    }
+
+    const added: JournalChange[] = [];
+    for (const [index, entry] of moved.entries()) {
+      if (copyIndexes[index] >= 0) continue;
+      const id = await targetStore.add(entry as AssetEntry);
+      added.push({ id, after: { ...entry, id } });
+      for (const { id: _id, ...position } of positions[index]) {
+        await targetTx.objectStore('positions').add({ ...position, entryId: id });
+      }
+    }
+    if (tag && !(await targetTx.objectStore('platformTags').get(platform))) {
+      await targetTx.objectStore('platformTags').put(tag);
+    }
+    if (meta && !(await targetTx.objectStore('platformMeta').get(platform))) {
+      await targetTx.objectStore('platformMeta').put(meta);
+    }
+    if (added.length > 0) {
+      await commitJournal(targetTx, 'import', `Moved ${platform} from ${from.name}`, added);
+    } else {
+      await targetTx.done;
+    }
+
+    // Source: delete the entries, tag and metadata, and unlink the other legs of their transfers
+    try {
+      const sourceTx = await openJournaledTransaction(from.id, ['platformTags', 'platformMeta']);
+      const store = sourceTx.objectStore('assets');
+      const changes: JournalChange[] = [];
+      for (const entry of entries) {
+        await store.delete(entry.id!);
+        changes.push({ id: entry.id!, before: entry });
+        if (isExternalTransfer(entry)) {
+          const [other] = (await store.index('by-transfer').getAll(entry.transferId!))
+            .filter(leg => leg.platform !== platform);
+          if (other) {
+            const after = unlink(migrateAssetEntry(other));
+            await store.put(after);
+            changes.push({ id: other.id!, before: other, after });
+          }
+        }
+      }
+      await Promise.all([sourceTx.objectStore('platformTags').delete(platform), sourceTx.objectStore('platformMeta').delete(platform)]);
+      return await commitJournal(sourceTx, 'delete', `Moved ${platform} to ${to.name}`, changes);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`${platform} was copied to ${to.name} but is still in ${from.name} (${reason}); move it again to finish`);
+    }
+  },
+};
@@ -1,22 +1,88 @@
-import { writable, derived } from 'svelte/store';
-import type { AssetEntry } from '../db';
-import { assetDb, platformTagDb } from '../db';
+import { writable, derived, get } from 'svelte/store';
+import type {
+  AssetEntry,
+  Goal,
+  TargetAllocation,
+  BenchmarkSeries,
+  PlatformMeta,
+  FxRate,
+  TransferLeg,
+  JournalChange,
+  JournalRecord,
+  DatabaseSnapshot,
+  Portfolio,
+  Position,
+  CostBasisMethod,
+  TaxTreatment,
+  AccountType
+} from '../db';
+import {
+  assetDb,
+  platformTagDb,
+  goalDb,
+  targetAllocationDb,
+  benchmarkDb,
+  platformMetaDb,
+  fxRateDb,
+  positionDb,
+  journalDb,
+  backupDb,
+  portfolioDb,
+  DEFAULT_PORTFOLIO_ID
+} from '../db';
 import { 
   sortByDate, 
   groupByDate, 
   calculateSummary, 
-  calculateMonthlyRates,
   getHistoricalEntries,
   getYearStartEntries,
   getPlatformColor,
+  setDisplayCurrency,
+  DEFAULT_CURRENCY,
   type AssetSummary
 } from '../utils/calculations';
-import { calculateEnhancedAnalytics, type EnhancedAssetSummary } from '../analytics';
+import { 
+  calculateAllGoalMetrics,
+  calculateAllocationDrift,
+  DEFAULT_REBALANCE_TOLERANCE,
+  TIME_PERIODS,
+  buildFxTable,
+  convertEntries,
+  groupBySecurity,
+  sumPositions,
+  calculateCostBasis,
+  calculateAssetLocation,
+  calculateLiabilities,
+  type ConvertedEntry,
+  type EnhancedAssetSummary,
+  type BenchmarkContext,
+  type GoalMetrics,
+  type AllocationDrift,
+  type CostBasisSummary,
+  type AssetLocationResult,
+  type LiabilitySummary,
+  type TimePeriod
+} from '../analytics';
+import { analyticsClient, isAnalyticsCancelled } from '../analytics/client';
+import { getTransferFlow } from '../utils/transactions';
+import {
+  HOUSEHOLD_ID,
+  loadPortfolios,
+  savePortfolios,
+  loadActivePortfolioId,
+  saveActivePortfolioId,
+  createPortfolioId,
+  householdPlatformName
+} from '../utils/portfolios';
 
 // State types
 interface AssetState {
   loading: boolean;
-  assets: AssetEntry[];
+  assets: AssetEntry[];                // as stored, each in its own currency
+  reportingAssets: ConvertedEntry[];   // converted into baseCurrency; drives every total below
+  baseCurrency: string;
+  fxRates: FxRate[];
+  missingFxRates: string[];            // "FROM/TO" pairs needed for conversion but not available
   selectedDate: string;
   allDates: string[];
   entriesByDate: Map<string, AssetEntry[]>;
@@ -26,17 +92,54 @@ interface AssetState {
   yoyEntries: AssetEntry[];
   yearStartEntries: AssetEntry[];
   summary: EnhancedAssetSummary;
+  analyticsPending: boolean;           // summary or monthly rates are being recalculated in the worker
   comparisonPeriod: 'MoM' | 'YTD' | 'YoY';
+  timePeriod: TimePeriod;              // window for returns, risk and cash flow metrics
   dataView: 'percentage' | 'absolute';
   monthlyRateData: MonthlyRateData;
   platformTags: Record<string, string>;
-  allocationChartGroupBy: 'platform' | 'tag';
+  positions: Record<number, Position[]>;  // security positions by entry id
+  goals: Goal[];
+  targetAllocations: TargetAllocation[];
+  rebalanceTolerance: number;
+  benchmarks: BenchmarkSeries[];
+  platformMeta: Record<string, PlatformMeta>;
+  portfolioBenchmark: string;  // '' = none
+  allocationChartGroupBy: 'platform' | 'tag' | 'security';
   platformPerformanceView: 'bar' | 'timeseries';
   timeSeriesPerformanceType: 'interval' | 'cumulative';
   timeSeriesDateRange: { start: string | null; end: string | null };
   timeSeriesShowTotal: boolean;
+  history: { undo: string | null; redo: string | null };  // descriptions of the next undo and redo steps
+  portfolios: Portfolio[];
+  activePortfolio: string;                    // portfolio id, or HOUSEHOLD_ID for the combined view
+  platformPortfolios: Record<string, string>; // household view: platform → portfolio name
+}
+
+// Everything loaded from a portfolio's database (or combined across portfolios)
+interface PortfolioData {
+  assets: AssetEntry[];
+  platformTags: Record<string, string>;
+  positions: Record<number, Position[]>;
+  goals: Goal[];
+  targetAllocations: TargetAllocation[];
+  benchmarks: BenchmarkSeries[];
+  platformMeta: Record<string, PlatformMeta>;
+  fxRates: FxRate[];
+  platformPortfolios: Record<string, string>;
 }
 
+// An undoable step of this session: a change journal record, plus for "Clear all data"
+// every store as it was (only entries are kept in the journal; the snapshot's entries link the positions back)
+interface UndoStep {
+  journalId: number;
+  description: string;
+  clearedStores?: DatabaseSnapshot;
+}
+
+// Steps kept for undo; older changes can still be reverted from the history panel
+const MAX_UNDO_STEPS = 50;
+
 // Define structure for the rate data
 export interface MonthlyRateData {
   dates: string[];
@@ -65,6 +168,10 @@ const createAssetStore = () => {
   const initialState: AssetState = {
     loading: true,
     assets: [],
+    reportingAssets: [],
+    baseCurrency: DEFAULT_CURRENCY,
+    fxRates: [],
+    missingFxRates: [],
     selectedDate: '',
     allDates: [],
     entriesByDate: new Map(),
@@ -75,16 +182,19 @@ const createAssetStore = () => {
     yearStartEntries: [],
     summary: {
       totalValue: 0,
+      totalAssets: 0,
+      totalLiabilities: 0,
       totalPreviousValue: 0,
       percentChange: 0,
       absoluteChange: 0,
       avgRate: 0,
+      liabilityRate: 0,
       largestHolding: { platform: '', amount: 0 },
       platforms: [],
       platformData: {},
       portfolioMetrics: {
         timeWeightedReturn: 0,
-        moneyWeightedReturn: 0,
+        moneyWeightedReturn: null,
         cagr: 0,
         totalReturn: 0,
         volatility: 0
@@ -97,21 +207,94 @@ const createAssetStore = () => {
         investmentGains: 0,
         averageContributionAmount: 0,
         contributionFrequency: 0,
-        contributionsByPeriod: []
+        totalDividends: 0,
+        totalInterest: 0,
+        totalFees: 0,
+        contributionsByPeriod: [],
+        incomeByPeriod: []
       }
     },
+    analyticsPending: false,
     comparisonPeriod: 'MoM',
+    timePeriod: 'ALL',
     dataView: 'percentage',
     monthlyRateData: { dates: [], expectedRates: [], realizedRates: [] },
     platformTags: {},
+    positions: {},
+    goals: [],
+    targetAllocations: [],
+    rebalanceTolerance: DEFAULT_REBALANCE_TOLERANCE,
+    benchmarks: [],
+    platformMeta: {},
+    portfolioBenchmark: '',
     allocationChartGroupBy: 'platform',
     platformPerformanceView: 'bar',
     timeSeriesPerformanceType: 'interval',
     timeSeriesDateRange: { start: null, end: null },
     timeSeriesShowTotal: false,
+    history: { undo: null, redo: null },
+    portfolios: [],
+    activePortfolio: DEFAULT_PORTFOLIO_ID,
+    platformPortfolios: {},
   };
   
-  const { subscribe, set, update } = writable<AssetState>(initialState);
+  let portfolios = loadPortfolios();
+  let activePortfolio = loadActivePortfolioId(portfolios);
+  portfolioDb.activate(activePortfolio === HOUSEHOLD_ID ? DEFAULT_PORTFOLIO_ID : activePortfolio);
+  
+  // The metrics window is a view preference, kept like the base currency
+  const loadTimePeriod = (): TimePeriod => {
+    const saved = localStorage.getItem('homestead-time-period') as TimePeriod | null;
+    return saved && TIME_PERIODS.includes(saved) ? saved : initialState.timePeriod;
+  };
+  
+  const { subscribe, set, update } = writable<AssetState>({
+    ...initialState,
+    timePeriod: loadTimePeriod(),
+    portfolios,
+    activePortfolio
+  });
+  
+  let undoStack: UndoStep[] = [];
+  let redoStack: UndoStep[] = [];
+  
+  // Summaries by selected date, comparison period and time period. A summary only depends on entries up to its date,
+  // so an edit drops the cached summaries from the edited date onwards; benchmark and reload changes drop all.
+  const summaryCache = new Map<string, EnhancedAssetSummary>();
+  
+  const summaryKey = (state: AssetState) => `${state.selectedDate}|${state.comparisonPeriod}|${state.timePeriod}`;
+  
+  const forgetSummaries = (fromDate?: string) => {
+    for (const key of [...summaryCache.keys()]) {
+      if (fromDate === undefined || key.split('|')[0] >= fromDate) {
+        summaryCache.delete(key);
+      }
+    }
+  };
+  
+  // The household view only reads; changes are made in a single portfolio
+  const ensureWritable = () => {
+    if (activePortfolio === HOUSEHOLD_ID) {
+      throw new Error('The household view is read-only; switch to a portfolio to make changes');
+    }
+  };
+  
+  const publishHistory = () => {
+    update(state => ({
+      ...state,
+      history: {
+        undo: undoStack[undoStack.length - 1]?.description ?? null,
+        redo: redoStack[redoStack.length - 1]?.description ?? null
+      }
+    }));
+  };
+  
+  // Remember a journaled change for undo; a new change discards the redo steps
+  const trackChange = (record: JournalRecord, clearedStores?: DatabaseSnapshot) => {
+    undoStack = [...undoStack, { journalId: record.id!, description: record.description, clearedStores }].slice(-MAX_UNDO_STEPS);
+    redoStack = [];
+    publishHistory();
+  };
   
   // Helper to determine comparison entries based on period for a GIVEN DATE
   const getComparisonEntries = (
@@ -127,20 +310,209 @@ const createAssetStore = () => {
     return getHistoricalEntries(dateForComparison, period, allDates, entriesByDate);
   };
   
+  // Every entry up to and including a date, used for return calculations over time
+  const getHistoryUpTo = (assets: AssetEntry[], date: string): AssetEntry[] => {
+    return assets.filter(entry => entry.date <= date);
+  };
+  
+  // Account type of each platform that has one
+  const getPlatformAccountTypes = (platformMeta: Record<string, PlatformMeta>): Record<string, AccountType> => {
+    const accountTypes: Record<string, AccountType> = {};
+    Object.values(platformMeta).forEach(meta => {
+      if (meta.accountType) accountTypes[meta.platform] = meta.accountType;
+    });
+    return accountTypes;
+  };
+  
+  // Benchmark series and assignments in the shape the analytics expect
+  const getBenchmarkContext = (
+    benchmarks: BenchmarkSeries[],
+    platformMeta: Record<string, PlatformMeta>,
+    portfolioBenchmark: string
+  ): BenchmarkContext => {
+    const platformBenchmarks: Record<string, string> = {};
+    Object.values(platformMeta).forEach(meta => {
+      if (meta.benchmark) platformBenchmarks[meta.platform] = meta.benchmark;
+    });
+    
+    return {
+      series: Object.fromEntries(benchmarks.map(series => [series.name, series.points])),
+      platformBenchmarks,
+      portfolioBenchmark: portfolioBenchmark || undefined
+    };
+  };
+  
+  /**
+   * Recalculate the summary for the selected date and comparison period in the analytics worker.
+   * A newer call (the next slider step, say) cancels this one, so only the latest result is stored.
+   * Dates seen before are answered from the cache.
+   */
+  const recalculateSummary = async () => {
+    const state = get({ subscribe });
+    const key = summaryKey(state);
+    const cached = summaryCache.get(key);
+    if (cached) {
+      analyticsClient.cancelChannel('summary');
+      update(current => ({ ...current, summary: cached, analyticsPending: false }));
+      return;
+    }
+    
+    update(current => ({ ...current, analyticsPending: true }));
+    try {
+      const summary = await analyticsClient.call('summary', [
+        state.currentEntries,
+        state.previousEntries,
+        getHistoryUpTo(state.reportingAssets, state.selectedDate),
+        getBenchmarkContext(state.benchmarks, state.platformMeta, state.portfolioBenchmark),
+        state.baseCurrency,
+        state.platformPortfolios,
+        state.timePeriod,
+        state.platformTags,
+        getPlatformAccountTypes(state.platformMeta)
+      ], 'summary');
+      summaryCache.set(key, summary);
+      update(current => ({ ...current, summary, analyticsPending: false }));
+    } catch (error) {
+      if (isAnalyticsCancelled(error)) return;
+      console.error('Failed to calculate analytics:', error);
+      update(current => ({ ...current, analyticsPending: false }));
+    }
+  };
+  
+  // Monthly rates only change with the entries, not with the selected date
+  const recalculateMonthlyRates = async () => {
+    const { allDates, entriesByDate } = get({ subscribe });
+    try {
+      const monthlyRateData = await analyticsClient.call('monthlyRates', [allDates, entriesByDate], 'monthlyRates');
+      update(current => ({ ...current, monthlyRateData }));
+    } catch (error) {
+      if (!isAnalyticsCancelled(error)) {
+        console.error('Failed to calculate monthly rates:', error);
+      }
+    }
+  };
+  
+  // Positions by entry id, leaving out those whose entry was deleted (see positionDb)
+  const groupPositions = (positions: Position[], entryIds: Set<number>, entryIdMap?: Map<number, number>) => {
+    const grouped: Record<number, Position[]> = {};
+    for (const position of positions) {
+      const entryId = entryIdMap ? entryIdMap.get(position.entryId) : position.entryId;
+      if (entryId === undefined || !entryIds.has(entryId)) continue;
+      (grouped[entryId] = grouped[entryId] || []).push({ ...position, entryId });
+    }
+    return grouped;
+  };
+  
+  // Read the active portfolio's database
+  const loadPortfolioData = async (): Promise<PortfolioData> => {
+    const [assets, platformTags, goals, targetAllocations, benchmarks, platformMeta, fxRates, positions] = await Promise.all([
+      assetDb.getAll(),
+      platformTagDb.getAll(),
+      goalDb.getAll(),
+      targetAllocationDb.getAll(),
+      benchmarkDb.getAll(),
+      platformMetaDb.getAll(),
+      fxRateDb.getAll(),
+      positionDb.getAll()
+    ]);
+    return {
+      assets,
+      platformTags,
+      positions: groupPositions(positions, new Set(assets.map(entry => entry.id!))),
+      goals,
+      targetAllocations,
+      benchmarks,
+      platformMeta,
+      fxRates,
+      platformPortfolios: {}
+    };
+  };
+  
+  /**
+   * Combine every portfolio for the household view. Platforms are renamed with their portfolio
+   * (the same platform name may exist in several) and entries get ids unique across portfolios.
+   * Goals and targets belong to a single portfolio and are left out.
+   */
+  const loadHouseholdData = async (): Promise<PortfolioData> => {
+    const snapshots = await Promise.all(portfolios.map(portfolio => backupDb.exportAll(portfolio.id)));
+    const data: PortfolioData = {
+      assets: [],
+      platformTags: {},
+      positions: {},
+      goals: [],
+      targetAllocations: [],
+      benchmarks: [],
+      platformMeta: {},
+      fxRates: [],
+      platformPortfolios: {}
+    };
+    
+    snapshots.forEach((snapshot, index) => {
+      const portfolio = portfolios[index];
+      const rename = (platform: string) => householdPlatformName(platform, portfolio);
+      
+      const entryIds = new Map<number, number>();
+      for (const entry of snapshot.assets) {
+        const id = data.assets.length + 1;
+        entryIds.set(entry.id!, id);
+        data.assets.push({
+          ...entry,
+          id,
+          platform: rename(entry.platform),
+          transferPlatform: entry.transferPlatform && rename(entry.transferPlatform)
+        });
+        data.platformPortfolios[rename(entry.platform)] = portfolio.name;
+      }
+      Object.assign(data.positions, groupPositions(snapshot.positions, new Set(entryIds.values()), entryIds));
+      snapshot.platformTags.forEach(({ platform, tag }) => data.platformTags[rename(platform)] = tag);
+      snapshot.platformMeta.forEach(meta => data.platformMeta[rename(meta.platform)] = { ...meta, platform: rename(meta.platform) });
+      snapshot.benchmarks
+        .filter(series => !data.benchmarks.some(existing => existing.name === series.name))
+        .forEach(series => data.benchmarks.push(series));
+      data.fxRates.push(...snapshot.fxRates);
+    });
+    
+    return data;
+  };
+  
   // Load assets from database
   const loadAssets = async () => {
     update(state => ({ ...state, loading: true }));
     
     try {
-      const [assets, platformTags] = await Promise.all([
-        assetDb.getAll(),
-        platformTagDb.getAll()
-      ]);
+      // A restored backup may have added portfolios
+      portfolios = loadPortfolios();
+      
+      const {
+        assets,
+        platformTags,
+        positions,
+        goals,
+        targetAllocations,
+        benchmarks,
+        platformMeta,
+        fxRates,
+        platformPortfolios
+      } = activePortfolio === HOUSEHOLD_ID ? await loadHouseholdData() : await loadPortfolioData();
+      
+      // Portfolio benchmark is a view preference, kept alongside the onboarding flag
+      const savedBenchmark = localStorage.getItem('homestead-portfolio-benchmark') || '';
+      const portfolioBenchmark = benchmarks.some(series => series.name === savedBenchmark) ? savedBenchmark : '';
+      
+      const baseCurrency = localStorage.getItem('homestead-base-currency') || DEFAULT_CURRENCY;
+      setDisplayCurrency(baseCurrency);
       
       const sortedAssets = sortByDate(assets);
       
+      // Everything below is reported in the base currency
+      const { entries: reportingAssets, missingRates: missingFxRates } = convertEntries(
+        sortedAssets,
+        baseCurrency,
+        buildFxTable(fxRates)
+      );
+      
       // Group by date for easier access
-      const entriesByDate = groupByDate(assets);
+      const entriesByDate = groupByDate(reportingAssets);
       
       // Get all unique dates sorted (newest first)
       const allDates = [...entriesByDate.keys()].sort((a, b) => b.localeCompare(a));
@@ -159,17 +531,15 @@ const createAssetStore = () => {
       // previousEntries for summary is based on the initial comparisonPeriod  
       const previousEntries = getComparisonEntries(selectedDate, initialState.comparisonPeriod, allDates, entriesByDate);
       
-      // Calculate enhanced summary statistics
-      const summary = calculateEnhancedAnalytics(currentEntries, previousEntries);
-      
-      // Calculate monthly rates
-      const monthlyRateData = calculateMonthlyRates(allDates, entriesByDate);
-      
-      // Update store
+      // Update store; the summary and monthly rates follow from the analytics worker
+      forgetSummaries();
       update(state => ({
         ...state,
-        loading: false,
         assets: sortedAssets,
+        reportingAssets,
+        baseCurrency,
+        fxRates,
+        missingFxRates,
         selectedDate,
         allDates,
         entriesByDate,
@@ -178,23 +548,95 @@ const createAssetStore = () => {
         momEntries,
         yoyEntries,
         yearStartEntries,
-        summary,
-        monthlyRateData,
         platformTags,
+        positions,
+        goals,
+        targetAllocations,
+        benchmarks,
+        platformMeta,
+        portfolioBenchmark,
+        platformPortfolios,
+        portfolios,
       }));
+      await Promise.all([recalculateSummary(), recalculateMonthlyRates()]);
+      update(state => ({ ...state, loading: false }));
     } catch (error) {
       console.error('Failed to load assets:', error);
       update(state => ({ ...state, loading: false }));
     }
   };
   
+  /**
+   * Apply saved entry changes (a journal record's) to the loaded entries instead of re-reading the database.
+   * The selected date stays put, or moves to the nearest earlier date if its entries are gone. The summary
+   * is only recalculated when a change is on or before the selected date.
+   */
+  const applyEntryChanges = async (changes: JournalChange[]) => {
+    const state = get({ subscribe });
+    const saved = changes.map(change => change.after).filter((entry): entry is AssetEntry => entry !== undefined);
+    const { entries: converted, missingRates } = convertEntries(saved, state.baseCurrency, buildFxTable(state.fxRates));
+    const affectedDates = [...new Set(changes.flatMap(change => [change.before?.date, change.after?.date]))]
+      .filter((date): date is string => date !== undefined)
+      .sort();
+    if (affectedDates.length === 0) return;
+    
+    // Replace changed entries where they were (keeping the order within a date), drop deleted ones, add new ones
+    const replaceEntries = <T extends AssetEntry>(entries: T[], updated: T[]): T[] => {
+      const changedIds = new Set(changes.map(change => change.id));
+      const updatedById = new Map(updated.map(entry => [entry.id!, entry]));
+      const kept = entries.flatMap(entry => {
+        if (!changedIds.has(entry.id!)) return [entry];
+        const next = updatedById.get(entry.id!);
+        updatedById.delete(entry.id!);
+        return next ? [next] : [];
+      });
+      return sortByDate([...kept, ...updatedById.values()]) as T[];
+    };
+    const assets = replaceEntries(state.assets, saved);
+    const reportingAssets = replaceEntries(state.reportingAssets, converted);
+    
+    const entriesByDate = new Map(state.entriesByDate);
+    for (const date of affectedDates) {
+      const entries = reportingAssets.filter(entry => entry.date === date);
+      if (entries.length > 0) {
+        entriesByDate.set(date, entries);
+      } else {
+        entriesByDate.delete(date);
+      }
+    }
+    const allDates = [...entriesByDate.keys()].sort((a, b) => b.localeCompare(a));
+    
+    const selectedDate = entriesByDate.has(state.selectedDate)
+      ? state.selectedDate
+      : allDates.find(date => date < state.selectedDate) ?? allDates[0] ?? '';
+    
+    forgetSummaries(affectedDates[0]);
+    update(current => ({
+      ...current,
+      assets,
+      reportingAssets,
+      missingFxRates: [...new Set([...current.missingFxRates, ...missingRates])].sort(),
+      selectedDate,
+      allDates,
+      entriesByDate,
+      currentEntries: entriesByDate.get(selectedDate) || [],
+      previousEntries: getComparisonEntries(selectedDate, current.comparisonPeriod, allDates, entriesByDate),
+      momEntries: getHistoricalEntries(selectedDate, 'MoM', allDates, entriesByDate),
+      yoyEntries: getHistoricalEntries(selectedDate, 'YoY', allDates, entriesByDate),
+      yearStartEntries: getYearStartEntries(selectedDate, allDates, entriesByDate)
+    }));
+    
+    const summaryAffected = selectedDate !== state.selectedDate || affectedDates[0] <= selectedDate;
+    await Promise.all([summaryAffected ? recalculateSummary() : undefined, recalculateMonthlyRates()]);
+  };
+  
   // Select a different date
   const selectDate = (date: string) => {
+    if (!get({ subscribe }).entriesByDate.has(date)) {
+      return;
+    }
+    
     update(state => {
-      if (!state.entriesByDate.has(date)) {
-        return state;
-      }
-      
       const currentEntries = state.entriesByDate.get(date) || [];
       
       // Update all date-specific comparison entries
@@ -205,11 +647,6 @@ const createAssetStore = () => {
       // previousEntries for summary is based on the current state.comparisonPeriod
       const previousEntries = getComparisonEntries(date, state.comparisonPeriod, state.allDates, state.entriesByDate);
       
-      const summary = calculateEnhancedAnalytics(currentEntries, previousEntries);
-      
-      // Calculate monthly rates
-      const monthlyRateData = calculateMonthlyRates(state.allDates, state.entriesByDate);
-      
       return {
         ...state,
         selectedDate: date,
@@ -217,11 +654,10 @@ const createAssetStore = () => {
         previousEntries,
         momEntries,
         yoyEntries,
-        yearStartEntries,
-        summary,
-        monthlyRateData
+        yearStartEntries
       };
     });
+    recalculateSummary();
   };
   
   // Set comparison period
@@ -230,15 +666,21 @@ const createAssetStore = () => {
       // Only need to recalculate previousEntries and summary, as currentEntries and other specific
       // historical entries (mom, yoy, yearStart) depend on selectedDate, not the comparisonPeriod for the summary.
       const previousEntries = getComparisonEntries(state.selectedDate, period, state.allDates, state.entriesByDate);
-      const summary = calculateEnhancedAnalytics(state.currentEntries, previousEntries);
       
       return {
         ...state,
         comparisonPeriod: period,
-        previousEntries,
-        summary
+        previousEntries
       };
     });
+    recalculateSummary();
+  };
+  
+  // Choose the window returns, volatility, drawdown and cash flows are measured over
+  const setTimePeriod = (period: TimePeriod) => {
+    localStorage.setItem('homestead-time-period', period);
+    update(state => ({ ...state, timePeriod: period }));
+    recalculateSummary();
   };
   
   // Set data view mode
@@ -249,8 +691,10 @@ const createAssetStore = () => {
   // Add a new asset entry
   const addEntry = async (entry: Omit<AssetEntry, 'id'>) => {
     try {
-      await assetDb.add(entry);
-      await loadAssets();
+      ensureWritable();
+      const record = await assetDb.add(entry);
+      trackChange(record);
+      await applyEntryChanges(record.changes);
       return true;
     } catch (error) {
       console.error('Failed to add entry:', error);
@@ -261,8 +705,10 @@ const createAssetStore = () => {
   // Update an asset entry
   const updateEntry = async (entry: AssetEntry) => {
     try {
-      await assetDb.update(entry);
-      await loadAssets();
+      ensureWritable();
+      const record = await assetDb.update(entry);
+      trackChange(record);
+      await applyEntryChanges(record.changes);
       return true;
     } catch (error) {
       console.error('Failed to update entry:', error);
@@ -273,8 +719,10 @@ const createAssetStore = () => {
   // Delete an asset entry
   const deleteEntry = async (id: number) => {
     try {
-      await assetDb.delete(id);
-      await loadAssets();
+      ensureWritable();
+      const record = await assetDb.delete(id);
+      trackChange(record);
+      await applyEntryChanges(record.changes);
       return true;
     } catch (error) {
       console.error('Failed to delete entry:', error);
@@ -282,15 +730,54 @@ const createAssetStore = () => {
     }
   };
   
-  // Clear all data
+  // Record a transfer between two platforms (both legs are saved together)
+  const addTransfer = async (date: string, source: TransferLeg, destination: TransferLeg) => {
+    try {
+      ensureWritable();
+      const record = await assetDb.addTransfer(date, source, destination);
+      trackChange(record);
+      await applyEntryChanges(record.changes);
+      return true;
+    } catch (error) {
+      console.error('Failed to add transfer:', error);
+      return false;
+    }
+  };
+  
+  // Delete both legs of a transfer
+  const deleteTransfer = async (transferId: string) => {
+    try {
+      ensureWritable();
+      const record = await assetDb.deleteTransfer(transferId);
+      trackChange(record);
+      await applyEntryChanges(record.changes);
+      return true;
+    } catch (error) {
+      console.error('Failed to delete transfer:', error);
+      return false;
+    }
+  };
+  
+  // Clear every store besides the entries: tags, goals, targets, benchmarks, platform settings, rates and positions
+  const clearOtherStores = () => Promise.all([
+    platformTagDb.clear(),
+    goalDb.clear(),
+    targetAllocationDb.clear(),
+    benchmarkDb.clear(),
+    platformMetaDb.clear(),
+    fxRateDb.clear(),
+    positionDb.clear()
+  ]);
+  
+  // Clear all data; the entries stay in the journal and the rest is kept for undo during this session
   const clearAllData = async () => {
     update(state => ({ ...state, loading: true }));
     try {
-      await Promise.all([
-        assetDb.clear(),
-        platformTagDb.clear()
-      ]);
-      set(initialState); 
+      ensureWritable();
+      const snapshot = await backupDb.exportAll();
+      const [record] = await Promise.all([assetDb.clear(), clearOtherStores()]);
+      set({ ...initialState, timePeriod: loadTimePeriod(), portfolios, activePortfolio });
+      trackChange(record, snapshot);
       await loadAssets();
     } catch (error) {
       console.error('Failed to clear data:', error);
@@ -298,9 +785,155 @@ const createAssetStore = () => {
     }
   };
   
+  // Reverse or re-apply a step; other stores saved by "Clear all data" are restored or cleared with it
+  const applyStep = async (step: UndoStep, action: 'undo' | 'redo') => {
+    const record = await journalDb.apply(step.journalId, action);
+    if (step.clearedStores) {
+      if (action === 'undo') {
+        await backupDb.importAll(step.clearedStores, 'merge');
+      } else {
+        await clearOtherStores();
+      }
+      await loadAssets();
+    } else {
+      await applyEntryChanges(record.changes);
+    }
+  };
+  
+  // Undo the most recent change of this session
+  const undo = async (): Promise<{ success: boolean; message: string }> => {
+    const step = undoStack[undoStack.length - 1];
+    if (!step) return { success: false, message: 'Nothing to undo' };
+    
+    try {
+      ensureWritable();
+      await applyStep(step, 'undo');
+      undoStack = undoStack.slice(0, -1);
+      redoStack = [...redoStack, step];
+      publishHistory();
+      return { success: true, message: `Undid: ${step.description}` };
+    } catch (error) {
+      console.error('Failed to undo:', error);
+      return { success: false, message: `Could not undo: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  };
+  
+  // Redo the most recently undone change
+  const redo = async (): Promise<{ success: boolean; message: string }> => {
+    const step = redoStack[redoStack.length - 1];
+    if (!step) return { success: false, message: 'Nothing to redo' };
+    
+    try {
+      ensureWritable();
+      await applyStep(step, 'redo');
+      redoStack = redoStack.slice(0, -1);
+      undoStack = [...undoStack, step];
+      publishHistory();
+      return { success: true, message: `Redid: ${step.description}` };
+    } catch (error) {
+      console.error('Failed to redo:', error);
+      return { success: false, message: `Could not redo: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  };
+  
+  // Revert any past change from the journal; the revert itself can be undone
+  const revertChange = async (journalId: number): Promise<{ success: boolean; message: string }> => {
+    try {
+      ensureWritable();
+      const record = await journalDb.apply(journalId, 'revert');
+      trackChange(record);
+      await applyEntryChanges(record.changes);
+      return { success: true, message: record.description };
+    } catch (error) {
+      console.error('Failed to revert change:', error);
+      return { success: false, message: `Could not revert: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  };
+  
+  // Switch to a portfolio, or HOUSEHOLD_ID for the combined view; undo history is per portfolio
+  const selectPortfolio = async (portfolioId: string) => {
+    activePortfolio = portfolioId;
+    saveActivePortfolioId(portfolioId);
+    portfolioDb.activate(portfolioId === HOUSEHOLD_ID ? DEFAULT_PORTFOLIO_ID : portfolioId);
+    undoStack = [];
+    redoStack = [];
+    update(state => ({ ...state, activePortfolio: portfolioId }));
+    publishHistory();
+    await loadAssets();
+  };
+
+  // A restore writes outside the change journal, so the session's undo steps no longer apply
+  const reloadAfterRestore = async () => {
+    undoStack = [];
+    redoStack = [];
+    publishHistory();
+    forgetSummaries();
+    await loadAssets();
+  };
+
+  const setPortfolios = (list: Portfolio[]) => {
+    portfolios = list;
+    savePortfolios(list);
+    update(state => ({ ...state, portfolios: list }));
+  };
+  
+  // Create an empty portfolio and switch to it
+  const createPortfolio = async (name: string) => {
+    const portfolio: Portfolio = { id: createPortfolioId(), name: name.trim() };
+    setPortfolios([...portfolios, portfolio]);
+    await selectPortfolio(portfolio.id);
+    return portfolio;
+  };
+  
+  const renamePortfolio = async (portfolioId: string, name: string) => {
+    setPortfolios(portfolios.map(portfolio => portfolio.id === portfolioId ? { ...portfolio, name: name.trim() } : portfolio));
+    if (activePortfolio === HOUSEHOLD_ID) {
+      await loadAssets();
+    }
+  };
+  
+  // Delete a portfolio and all of its data (the default portfolio cannot be deleted)
+  const deletePortfolio = async (portfolioId: string) => {
+    if (portfolioId === DEFAULT_PORTFOLIO_ID) return false;
+    try {
+      await portfolioDb.remove(portfolioId);
+      setPortfolios(portfolios.filter(portfolio => portfolio.id !== portfolioId));
+      if (activePortfolio === portfolioId) {
+        await selectPortfolio(DEFAULT_PORTFOLIO_ID);
+      } else if (activePortfolio === HOUSEHOLD_ID) {
+        await loadAssets();
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to delete portfolio:', error);
+      return false;
+    }
+  };
+  
+  // Move a platform's entries, tag and settings from the active portfolio to another one
+  const movePlatform = async (platform: string, targetPortfolioId: string): Promise<{ success: boolean; message: string }> => {
+    try {
+      ensureWritable();
+      const from = portfolios.find(portfolio => portfolio.id === activePortfolio)!;
+      const to = portfolios.find(portfolio => portfolio.id === targetPortfolioId);
+      if (!to || to.id === from.id) {
+        throw new Error('Choose another portfolio');
+      }
+      const record = await portfolioDb.movePlatform(platform, from, to);
+      await loadAssets();
+      return { success: true, message: `${record.description} (${record.changes.filter(change => !change.after).length} entries)` };
+    } catch (error) {
+      console.error('Failed to move platform:', error);
+      // The target may already hold a copy
+      await loadAssets();
+      return { success: false, message: `Could not move ${platform}: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  };
+  
   // Set a platform tag
   const setTag = async (platform: string, tag: string) => {
     try {
+      ensureWritable();
       await platformTagDb.set(platform, tag);
       update(state => {
         const newTags = { ...state.platformTags };
@@ -311,13 +944,271 @@ const createAssetStore = () => {
         }
         return { ...state, platformTags: newTags };
       });
+      forgetSummaries();
+      recalculateSummary();
     } catch (error) {
       console.error('Failed to set platform tag:', error);
     }
   };
 
+  /**
+   * Replace an entry's security positions. With `reconcile`, the entry's balance is set to the
+   * positions total as well (a journaled edit, so it can be undone); the positions themselves
+   * are not part of the journal.
+   */
+  const savePositions = async (entry: AssetEntry, positions: Omit<Position, 'id' | 'entryId'>[], reconcile = false) => {
+    try {
+      ensureWritable();
+      const saved = await positionDb.setForEntry(entry.id!, positions);
+      update(state => {
+        const next = { ...state.positions };
+        if (saved.length > 0) {
+          next[entry.id!] = saved;
+        } else {
+          delete next[entry.id!];
+        }
+        return { ...state, positions: next };
+      });
+      if (reconcile && positions.length > 0) {
+        return await updateEntry({ ...entry, amount: sumPositions(positions) });
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to save positions:', error);
+      return false;
+    }
+  };
+
+  // Set or clear (target = null) a target weight for a platform or tag
+  const setTargetAllocation = async (groupBy: TargetAllocation['groupBy'], name: string, target: number | null) => {
+    try {
+      ensureWritable();
+      await targetAllocationDb.set(groupBy, name, target);
+      update(state => {
+        const others = state.targetAllocations.filter(t => !(t.groupBy === groupBy && t.name === name));
+        return {
+          ...state,
+          targetAllocations: target === null ? others : [...others, { groupBy, name, target }]
+        };
+      });
+    } catch (error) {
+      console.error('Failed to set target allocation:', error);
+    }
+  };
+
+  // Set the rebalancing tolerance band (percentage points)
+  const setRebalanceTolerance = (tolerance: number) => {
+    update(state => ({ ...state, rebalanceTolerance: Math.max(0, tolerance) }));
+  };
+
+  // Save imported benchmark series (replacing series with the same name)
+  const saveBenchmarks = async (series: BenchmarkSeries[]) => {
+    try {
+      ensureWritable();
+      for (const item of series) {
+        await benchmarkDb.put(item);
+      }
+      const names = new Set(series.map(item => item.name));
+      update(state => ({
+        ...state,
+        benchmarks: [...state.benchmarks.filter(existing => !names.has(existing.name)), ...series]
+          .sort((a, b) => a.name.localeCompare(b.name))
+      }));
+      forgetSummaries();
+      recalculateSummary();
+      return true;
+    } catch (error) {
+      console.error('Failed to save benchmarks:', error);
+      return false;
+    }
+  };
+  
+  // Delete a benchmark series and any assignments that use it
+  const deleteBenchmark = async (name: string) => {
+    try {
+      ensureWritable();
+      await benchmarkDb.delete(name);
+      const platformMeta = await platformMetaDb.getAll();
+      for (const meta of Object.values(platformMeta)) {
+        if (meta.benchmark === name) {
+          platformMeta[meta.platform] = await platformMetaDb.update(meta.platform, { benchmark: undefined });
+        }
+      }
+      update(state => ({
+        ...state,
+        benchmarks: state.benchmarks.filter(series => series.name !== name),
+        platformMeta,
+        portfolioBenchmark: state.portfolioBenchmark === name ? '' : state.portfolioBenchmark
+      }));
+      forgetSummaries();
+      recalculateSummary();
+      return true;
+    } catch (error) {
+      console.error('Failed to delete benchmark:', error);
+      return false;
+    }
+  };
+  
+  // Assign a benchmark to a platform ('' clears it)
+  const setPlatformBenchmark = async (platform: string, benchmark: string) => {
+    try {
+      ensureWritable();
+      const meta = await platformMetaDb.update(platform, { benchmark: benchmark || undefined });
+      update(state => ({ ...state, platformMeta: { ...state.platformMeta, [platform]: meta } }));
+      forgetSummaries();
+      recalculateSummary();
+    } catch (error) {
+      console.error('Failed to set platform benchmark:', error);
+    }
+  };
+  
+  // Choose how a platform's withdrawals pick the tax lots they sell
+  const setCostBasisMethod = async (platform: string, method: CostBasisMethod) => {
+    try {
+      ensureWritable();
+      const meta = await platformMetaDb.update(platform, { costBasisMethod: method });
+      update(state => ({ ...state, platformMeta: { ...state.platformMeta, [platform]: meta } }));
+      return true;
+    } catch (error) {
+      console.error('Failed to set cost basis method:', error);
+      return false;
+    }
+  };
+  
+  // Mark a platform as taxable, tax-deferred or tax-free for the tax report
+  const setTaxTreatment = async (platform: string, treatment: TaxTreatment) => {
+    try {
+      ensureWritable();
+      const meta = await platformMetaDb.update(platform, { taxTreatment: treatment });
+      update(state => ({ ...state, platformMeta: { ...state.platformMeta, [platform]: meta } }));
+      return true;
+    } catch (error) {
+      console.error('Failed to set tax treatment:', error);
+      return false;
+    }
+  };
+  
+  // Set the kind of account a platform is held in ('' clears it)
+  const setAccountType = async (platform: string, accountType: AccountType | '') => {
+    try {
+      ensureWritable();
+      const meta = await platformMetaDb.update(platform, { accountType: accountType || undefined });
+      update(state => ({ ...state, platformMeta: { ...state.platformMeta, [platform]: meta } }));
+      forgetSummaries();
+      recalculateSummary();
+      return true;
+    } catch (error) {
+      console.error('Failed to set account type:', error);
+      return false;
+    }
+  };
+  
+  // Link a liability to the asset platform it is secured by ('' to unlink), for home equity
+  const setSecuredBy = async (platform: string, securedBy: string) => {
+    try {
+      ensureWritable();
+      const meta = await platformMetaDb.update(platform, { securedBy: securedBy || undefined });
+      update(state => ({ ...state, platformMeta: { ...state.platformMeta, [platform]: meta } }));
+      return true;
+    } catch (error) {
+      console.error('Failed to link liability:', error);
+      return false;
+    }
+  };
+  
+  // Choose the benchmark for portfolio-level metrics and the evolution chart overlay
+  const setPortfolioBenchmark = (benchmark: string) => {
+    if (benchmark) {
+      localStorage.setItem('homestead-portfolio-benchmark', benchmark);
+    } else {
+      localStorage.removeItem('homestead-portfolio-benchmark');
+    }
+    update(state => ({ ...state, portfolioBenchmark: benchmark }));
+    forgetSummaries();
+    recalculateSummary();
+  };
+
+  // Report every total in a different currency
+  const setBaseCurrency = async (currency: string) => {
+    localStorage.setItem('homestead-base-currency', currency);
+    await loadAssets();
+  };
+  
+  // Save imported exchange rates and re-convert
+  const saveFxRates = async (rates: FxRate[]) => {
+    try {
+      ensureWritable();
+      await fxRateDb.putMany(rates);
+      await loadAssets();
+      return true;
+    } catch (error) {
+      console.error('Failed to save exchange rates:', error);
+      return false;
+    }
+  };
+  
+  // Delete every rate for a currency pair
+  const deleteFxPair = async (from: string, to: string) => {
+    try {
+      ensureWritable();
+      await fxRateDb.deletePair(from, to);
+      await loadAssets();
+      return true;
+    } catch (error) {
+      console.error('Failed to delete exchange rates:', error);
+      return false;
+    }
+  };
+
+  // Add a new goal
+  const addGoal = async (goal: Omit<Goal, 'id' | 'createdAt'>) => {
+    const newGoal: Goal = {
+      ...goal,
+      id: `goal-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString()
+    };
+    try {
+      ensureWritable();
+      await goalDb.put(newGoal);
+      update(state => ({ ...state, goals: [...state.goals, newGoal] }));
+      return true;
+    } catch (error) {
+      console.error('Failed to add goal:', error);
+      return false;
+    }
+  };
+
+  // Update an existing goal
+  const updateGoal = async (goal: Goal) => {
+    try {
+      ensureWritable();
+      await goalDb.put(goal);
+      update(state => ({
+        ...state,
+        goals: state.goals.map(existing => existing.id === goal.id ? goal : existing)
+      }));
+      return true;
+    } catch (error) {
+      console.error('Failed to update goal:', error);
+      return false;
+    }
+  };
+
+  // Delete a goal
+  const deleteGoal = async (id: string) => {
+    try {
+      ensureWritable();
+      await goalDb.delete(id);
+      update(state => ({ ...state, goals: state.goals.filter(goal => goal.id !== id) }));
+      return true;
+    } catch (error) {
+      console.error('Failed to delete goal:', error);
+      return false;
+    }
+  };
+
   // Set allocation chart grouping
-  const setAllocationChartGroupBy = (groupBy: 'platform' | 'tag') => {
+  const setAllocationChartGroupBy = (groupBy: AssetState['allocationChartGroupBy']) => {
     update(state => ({ ...state, allocationChartGroupBy: groupBy }));
   };
   
@@ -352,12 +1243,42 @@ const createAssetStore = () => {
     loadAssets,
     selectDate,
     setComparisonPeriod,
+    setTimePeriod,
     setDataView,
     addEntry,
     updateEntry,
     deleteEntry,
+    addTransfer,
+    deleteTransfer,
     clearAllData,
+    trackChange,
+    undo,
+    redo,
+    revertChange,
+    selectPortfolio,
+    reloadAfterRestore,
+    createPortfolio,
+    renamePortfolio,
+    deletePortfolio,
+    movePlatform,
     setTag,
+    savePositions,
+    setTargetAllocation,
+    setRebalanceTolerance,
+    saveBenchmarks,
+    deleteBenchmark,
+    setPlatformBenchmark,
+    setPortfolioBenchmark,
+    setCostBasisMethod,
+    setTaxTreatment,
+    setAccountType,
+    setSecuredBy,
+    setBaseCurrency,
+    saveFxRates,
+    deleteFxPair,
+    addGoal,
+    updateGoal,
+    deleteGoal,
     setAllocationChartGroupBy,
     setPlatformPerformanceView,
     setTimeSeriesPerformanceType,
@@ -378,22 +1299,82 @@ export const uniquePlatforms = derived(
   }
 );
 
-// Derived store for Allocation Chart data, grouped by platform or tag
+// Derived store for goal progress as of the selected date
+export const goalProgress = derived(
+  assetStore,
+  ($assetStore): GoalMetrics[] => {
+    const { goals, reportingAssets, platformTags, selectedDate } = $assetStore;
+    return calculateAllGoalMetrics(goals, reportingAssets, platformTags, selectedDate || undefined);
+  }
+);
+
+// Derived store for tax lots and gains per platform as of the selected date, in the base currency
+export const costBasis = derived(
+  assetStore,
+  ($assetStore): CostBasisSummary => {
+    const { reportingAssets, platformMeta, selectedDate } = $assetStore;
+    const methods: Record<string, CostBasisMethod> = {};
+    Object.values(platformMeta).forEach(meta => {
+      if (meta.costBasisMethod) methods[meta.platform] = meta.costBasisMethod;
+    });
+    return calculateCostBasis(reportingAssets, methods, selectedDate || undefined);
+  }
+);
+
+// Derived store for the selected date's holdings by account type, with tax-inefficient placements
+export const assetLocation = derived(
+  assetStore,
+  ($assetStore): AssetLocationResult => {
+    const { currentEntries, positions, platformTags, platformMeta } = $assetStore;
+    return calculateAssetLocation(currentEntries, positions, platformTags, platformMeta);
+  }
+);
+
+// Derived store for liabilities of the selected date and the equity in assets they are secured by
+export const liabilities = derived(
+  assetStore,
+  ($assetStore): LiabilitySummary => {
+    const { currentEntries, previousEntries, platformMeta } = $assetStore;
+    return calculateLiabilities(currentEntries, previousEntries, platformMeta);
+  }
+);
+
+// Derived store for drift against target allocations, by platform and by tag
+export const allocationDrift = derived(
+  assetStore,
+  ($assetStore): { platform: AllocationDrift[]; tag: AllocationDrift[] } => {
+    const { currentEntries, platformTags, targetAllocations, rebalanceTolerance } = $assetStore;
+    return {
+      platform: calculateAllocationDrift(currentEntries, platformTags, targetAllocations, 'platform', rebalanceTolerance),
+      tag: calculateAllocationDrift(currentEntries, platformTags, targetAllocations, 'tag', rebalanceTolerance)
+    };
+  }
+);
+
+// Derived store for Allocation Chart data, grouped by platform, tag or security
 export const groupedAllocationData = derived(
   [assetStore],
   ([$assetStore]) => {
-    const { currentEntries, platformTags, allocationChartGroupBy } = $assetStore;
-    const grouped: Record<string, number> = {};
+    const { currentEntries, platformTags, positions, allocationChartGroupBy } = $assetStore;
+    // Securities come from each entry's positions (only positive values, like the other groupings)
+    const grouped: Record<string, number> = allocationChartGroupBy === 'security'
+      ? groupBySecurity(currentEntries, positions)
+      : {};
+    // Liabilities are listed apart from the chart, grouped by tag in the tag view and by platform otherwise
+    const debtGrouped: Record<string, number> = {};
 
     for (const entry of currentEntries) {
-      // Only include positive amounts in the allocation chart
-      if (entry.amount <= 0) {
-          continue;
+      const groupName = allocationChartGroupBy === 'tag'
+        ? platformTags[entry.platform] || entry.platform
+        : entry.platform;
+
+      if (entry.amount < 0) {
+        debtGrouped[groupName] = (debtGrouped[groupName] || 0) - entry.amount;
+        continue;
       }
-      
-      let groupName = entry.platform;
-      if (allocationChartGroupBy === 'tag') {
-        groupName = platformTags[entry.platform] || entry.platform;
+      // Only include positive amounts in the allocation chart
+      if (allocationChartGroupBy === 'security' || entry.amount === 0) {
+        continue;
       }
 
       grouped[groupName] = (grouped[groupName] || 0) + entry.amount;
@@ -413,10 +1394,15 @@ export const groupedAllocationData = derived(
         }
     });
 
+    const debt = Object.entries(debtGrouped)
+      .sort(([, a], [, b]) => b - a)
+      .map(([name, amount]) => ({ name, amount }));
+
     return {
       labels,
       data,
       colors,
+      debt,
     };
   }
 );
@@ -517,38 +1503,21 @@ export const platformPerformanceTimeSeriesData = derived(
 
         if (platformEntriesInRange.length === 0) return; // No data for this platform in range
 
-        if (timeSeriesPerformanceType === 'interval') {
-          for (let i = 0; i < platformEntriesInRange.length; i++) {
-            const currentEntry = platformEntriesInRange[i];
-            let performanceValue = 0;
-            if (i > 0) {
-              const previousEntry = platformEntriesInRange[i - 1];
-              if (previousEntry.amount > 0) {
-                performanceValue = ((currentEntry.amount - previousEntry.amount) / previousEntry.amount) * 100;
-              } else if (currentEntry.amount > 0 && previousEntry.amount === 0) {
-                performanceValue = 0; 
-              }
-            } else {
-              performanceValue = 0; 
+        // Transfers in or out are removed from each period's return, then periods are chained
+        let growth = 1;
+        platformEntriesInRange.forEach((currentEntry, i) => {
+          let periodReturn = 0;
+          if (i > 0) {
+            const startingAmount = platformEntriesInRange[i - 1].amount + getTransferFlow(currentEntry);
+            if (startingAmount > 0) {
+              periodReturn = currentEntry.amount / startingAmount - 1;
             }
-            timeSeries[platform].push({ date: currentEntry.date, value: performanceValue });
-          }
-        } else { // Cumulative
-          if (platformEntriesInRange.length > 0) {
-            const firstEntryInSeries = platformEntriesInRange[0];
-            const baselineAmount = firstEntryInSeries.amount;
-
-            platformEntriesInRange.forEach(currentEntry => {
-              let performanceValue = 0;
-              if (baselineAmount > 0) {
-                performanceValue = ((currentEntry.amount - baselineAmount) / baselineAmount) * 100;
-              } else if (currentEntry.amount > 0 && baselineAmount === 0) {
-                performanceValue = (currentEntry.amount === baselineAmount) ? 0 : 100;
-              }
-              timeSeries[platform].push({ date: currentEntry.date, value: performanceValue });
-            });
           }
-        }
+          growth *= 1 + periodReturn;
+          
+          const performanceValue = timeSeriesPerformanceType === 'interval' ? periodReturn * 100 : (growth - 1) * 100;
+          timeSeries[platform].push({ date: currentEntry.date, value: performanceValue });
+        });
       });
     }
     return timeSeries;
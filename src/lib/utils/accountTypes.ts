@@ -0,0 +1,39 @@
+import { ACCOUNT_TYPES, type AccountType } from '../db';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  taxable: 'Taxable',
+  ira: 'IRA',
+  roth: 'Roth',
+  '401k': '401(k)',
+  hsa: 'HSA',
+  '529': '529',
+  cash: 'Cash'
+};
+
+// Other spellings seen in imports, compared without spaces, punctuation or case
+const ACCOUNT_TYPE_ALIASES: Record<string, AccountType> = {
+  brokerage: 'taxable',
+  individual: 'taxable',
+  joint: 'taxable',
+  traditionalira: 'ira',
+  rolloverira: 'ira',
+  sepira: 'ira',
+  rothira: 'roth',
+  roth401k: 'roth',
+  '403b': '401k',
+  '457b': '401k',
+  checking: 'cash',
+  savings: 'cash'
+};
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Account type named by an import column, e.g. "Roth IRA" or "401(k)"; undefined when unknown
+ */
+export const parseAccountType = (text: string | undefined): AccountType | undefined => {
+  const key = normalize(text || '');
+  if (!key) return undefined;
+  return ACCOUNT_TYPES.find(type => normalize(type) === key || normalize(ACCOUNT_TYPE_LABELS[type]) === key)
+    || ACCOUNT_TYPE_ALIASES[key];
+};
@@ -0,0 +1,308 @@
+import { backupDb, DB_VERSION, DEFAULT_PORTFOLIO_ID, type DatabaseSnapshot, type Portfolio } from '../db';
+import { HOUSEHOLD_ID, findPortfolioByName, loadActivePortfolioId, loadPortfolios, savePortfolios } from './portfolios';
+
+// Bump when the backup file layout itself changes (not the database schema)
+// 2: optional `portfolio` / `portfolios`
+const BACKUP_VERSION = 2;
+const BACKUP_FORMAT = 'homestead-backup';
+
+// PBKDF2 work factor for new encrypted backups; older files carry their own
+const PBKDF2_ITERATIONS = 310000;
+
+// localStorage preferences that travel with a backup
+const SETTING_KEYS = [
+  'theme',
+  'homestead-onboarding-complete',
+  'homestead-portfolio-benchmark',
+  'homestead-base-currency',
+  'homestead-stress-scenarios',
+  'homestead-dismissed-insights'
+];
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Unencrypted backup: every object store plus preferences.
+// A single-portfolio backup holds that portfolio in `data`; an all-portfolio backup holds
+// the default portfolio in `data` and every other one in `portfolios`.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;  // DB_VERSION of the app that wrote the file
+  createdAt: string;
+  data: DatabaseSnapshot;
+  portfolio?: Portfolio;                                     // single-portfolio backup: where `data` came from
+  portfolios?: (Portfolio & { data: DatabaseSnapshot })[];   // all-portfolio backup: the other portfolios
+  settings: Record<string, string>;
+}
+
+// Backup encrypted with a passphrase: `payload` is the AES-GCM ciphertext of a BackupFile
+export interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: true;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  payload: string;
+}
+
+export const isEncryptedBackup = (backup: BackupFile | EncryptedBackupFile): backup is EncryptedBackupFile =>
+  'encrypted' in backup && backup.encrypted === true;
+
+export const createBackup = async (passphrase?: string, allPortfolios = false): Promise<{
+  success: boolean;
+  json?: string;
+  filename?: string;
+  message?: string;
+}> => {
+  try {
+    const settings: Record<string, string> = {};
+    for (const key of SETTING_KEYS) {
+      const value = localStorage.getItem(key);
+      if (value !== null) {
+        settings[key] = value;
+      }
+    }
+
+    const portfolios = loadPortfolios();
+    const activeId = loadActivePortfolioId(portfolios);
+    if (!allPortfolios && activeId === HOUSEHOLD_ID) {
+      return { success: false, message: 'Choose a portfolio, or back up all portfolios.' };
+    }
+
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: DB_VERSION,
+      createdAt: new Date().toISOString(),
+      data: await backupDb.exportAll(allPortfolios ? DEFAULT_PORTFOLIO_ID : undefined),
+      settings
+    };
+    if (allPortfolios) {
+      backup.portfolios = await Promise.all(portfolios
+        .filter(portfolio => portfolio.id !== DEFAULT_PORTFOLIO_ID)
+        .map(async portfolio => ({ ...portfolio, data: await backupDb.exportAll(portfolio.id) })));
+    } else {
+      backup.portfolio = portfolios.find(portfolio => portfolio.id === activeId);
+    }
+
+    const file = passphrase ? await encryptBackup(backup, passphrase) : backup;
+    const date = backup.createdAt.split('T')[0];
+
+    return {
+      success: true,
+      json: JSON.stringify(file, null, passphrase ? 0 : 2),
+      filename: `homestead-backup-${date}${passphrase ? '.encrypted' : ''}.json`
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+// Parse a backup file without decrypting it, so the UI can ask for a passphrase first
+export const readBackupFile = async (file: File): Promise<{
+  success: boolean;
+  backup?: BackupFile | EncryptedBackupFile;
+  message?: string;
+}> => {
+  try {
+    const parsed = JSON.parse(await file.text());
+    if (!parsed || parsed.format !== BACKUP_FORMAT) {
+      return { success: false, message: 'This is not a Homestead backup file.' };
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+      return { success: false, message: 'This backup was made by a newer version of the app.' };
+    }
+    return { success: true, backup: parsed };
+  } catch (error) {
+    return { success: false, message: 'The file could not be read as JSON.' };
+  }
+};
+
+/**
+ * Decrypt (if needed), migrate and write a backup to the database and localStorage.
+ * 'merge' keeps current preferences; 'replace' restores them from the backup.
+ * A single-portfolio backup goes into the active portfolio. An all-portfolio backup restores
+ * each portfolio into the one with the same id, creating portfolios that don't exist yet.
+ */
+export const restoreBackup = async (
+  backup: BackupFile | EncryptedBackupFile,
+  mode: RestoreMode,
+  passphrase?: string
+): Promise<{
+  success: boolean;
+  message: string;
+}> => {
+  let plain: BackupFile;
+  try {
+    if (isEncryptedBackup(backup)) {
+      if (!passphrase) {
+        return { success: false, message: 'This backup is encrypted. Enter its passphrase to restore it.' };
+      }
+      plain = await decryptBackup(backup, passphrase);
+    } else {
+      plain = backup;
+    }
+  } catch (error) {
+    return { success: false, message: 'Wrong passphrase, or the backup file is damaged.' };
+  }
+
+  try {
+    let added = 0;
+    let updated = 0;
+    let skippedPositions = 0;
+    const restore = async (snapshot: DatabaseSnapshot, portfolioId?: string) => {
+      const counts = await backupDb.importAll(migrateBackup(plain, snapshot), mode, portfolioId);
+      added += counts.added;
+      updated += counts.updated;
+      skippedPositions += counts.skippedPositions;
+    };
+
+    if (plain.portfolios) {
+      const portfolios = loadPortfolios();
+      await restore(plain.data, DEFAULT_PORTFOLIO_ID);
+      for (const { data, ...portfolio } of plain.portfolios) {
+        await restore(data, portfolio.id);
+        if (!portfolios.some(existing => existing.id === portfolio.id)) {
+          // Names must stay unique; a clash gets a suffix instead of being merged
+          const name = findPortfolioByName(portfolios, portfolio.name) ? `${portfolio.name} (restored)` : portfolio.name;
+          portfolios.push({ id: portfolio.id, name });
+        }
+      }
+      savePortfolios(portfolios);
+    } else if (loadActivePortfolioId(loadPortfolios()) === HOUSEHOLD_ID) {
+      return { success: false, message: 'Switch to the portfolio this backup should be restored into.' };
+    } else {
+      await restore(plain.data);
+    }
+
+    for (const key of SETTING_KEYS) {
+      const value = plain.settings?.[key];
+      if (mode === 'replace' && value === undefined) {
+        localStorage.removeItem(key);
+      } else if (value !== undefined && (mode === 'replace' || localStorage.getItem(key) === null)) {
+        localStorage.setItem(key, value);
+      }
+    }
+
+    const counts = mode === 'merge'
+      ? `${added} entries added, ${updated} updated`
+      : `${added} entries restored`;
+    const skipped = skippedPositions > 0
+      ? ` ${skippedPositions} ${skippedPositions === 1 ? 'position was' : 'positions were'} left out because their entry is not in the backup.`
+      : '';
+    return {
+      success: true,
+      message: `Backup from ${plain.createdAt.split('T')[0]} restored (${counts}).${skipped}`
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const downloadBackup = (json: string, filename: string): void => {
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/**
+ * Bring a backup's data up to the current schema.
+ * Stores added after the backup was written are empty; entry-level changes
+ * (such as re-typing negative contributions as withdrawals) happen as entries are written.
+ */
+function migrateBackup(backup: BackupFile, snapshot: DatabaseSnapshot): DatabaseSnapshot {
+  if (backup.schemaVersion > DB_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  const data: Partial<DatabaseSnapshot> = snapshot || {};
+  return {
+    assets: data.assets || [],
+    platformTags: data.platformTags || [],
+    goals: data.goals || [],
+    targetAllocations: data.targetAllocations || [],
+    benchmarks: data.benchmarks || [],
+    platformMeta: data.platformMeta || [],
+    fxRates: data.fxRates || [],
+    importPresets: data.importPresets || [],
+    positions: data.positions || []
+  };
+}
+
+async function encryptBackup(backup: BackupFile, passphrase: string): Promise<EncryptedBackupFile> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(backup))
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: true,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    payload: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+async function decryptBackup(file: EncryptedBackupFile, passphrase: string): Promise<BackupFile> {
+  const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(file.cipher.iv) },
+    key,
+    fromBase64(file.payload)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
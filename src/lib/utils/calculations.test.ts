@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetEntry } from '../db';
+import { calculateSummary } from './calculations';
+
+const entry = (date: string, platform: string, amount: number, transfer = 0): AssetEntry => ({
+  date,
+  platform,
+  amount,
+  rate: 5,
+  transactionType: transfer ? 'transfer' : 'snapshot',
+  contributionAmount: transfer || undefined
+});
+
+describe('calculateSummary', () => {
+  it('leaves out transfers on dates between the comparison date and the selected one', () => {
+    const previous = [entry('2024-01-31', 'Checking', 10000), entry('2024-01-31', 'Brokerage', 20000)];
+    const history = [
+      ...previous,
+      // 5000 moved from checking to the brokerage mid-period
+      entry('2024-02-15', 'Checking', 5000, -5000),
+      entry('2024-02-15', 'Brokerage', 25000, 5000),
+      entry('2024-03-31', 'Checking', 5000),
+      entry('2024-03-31', 'Brokerage', 25500)
+    ];
+    const current = history.filter(item => item.date === '2024-03-31');
+
+    const summary = calculateSummary(current, previous, history);
+
+    expect(summary.platformData.Checking.absoluteChange).toBe(0);
+    expect(summary.platformData.Checking.transferFlow).toBe(-5000);
+    expect(summary.platformData.Brokerage.absoluteChange).toBe(500);
+    expect(summary.platformData.Brokerage.percentChange).toBeCloseTo(2);
+  });
+
+  it('uses the selected date\'s transfers without a history', () => {
+    const previous = [entry('2024-01-31', 'Brokerage', 20000)];
+    const current = [entry('2024-02-29', 'Brokerage', 25500, 5000)];
+
+    expect(calculateSummary(current, previous).platformData.Brokerage.absoluteChange).toBe(500);
+  });
+});
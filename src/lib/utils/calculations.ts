@@ -1,12 +1,17 @@
 import type { AssetEntry } from '../db';
+import { getTransferFlow } from './transactions';
 import { format, parse, isAfter, isBefore, addMonths, addYears, subMonths, subYears } from 'date-fns';
 
 export interface AssetSummary {
-  totalValue: number;
+  totalValue: number;          // net worth: assets minus liabilities
+  totalAssets: number;
+  totalLiabilities: number;    // amount owed, as a positive number
   totalPreviousValue: number;
   percentChange: number;
   absoluteChange: number;
-  avgRate: number;
+  avgRate: number;             // expected return of the assets
+  liabilityRate: number;       // interest rate of the liabilities
+
   largestHolding: {
     platform: string;
     amount: number;
@@ -16,10 +21,11 @@ export interface AssetSummary {
     [platform: string]: {
       amount: number;
       rate: number;
-      percentage: number;
+      percentage: number;      // share of total assets, or of total liabilities for a liability
       previousAmount: number;
       percentChange: number;
-      absoluteChange: number;
+      absoluteChange: number;  // excludes money transferred in or out
+      transferFlow?: number;   // net transfers from other platforms this period
     };
   };
 }
@@ -173,18 +179,56 @@ export const getPreviousPlatformAmount = (
   return entry ? entry.amount : 0;
 };
 
-// Calculate summary stats for a given date
+// Expected rate of each platform's most recent entry, used for imports that carry no rate
+export const getLatestRates = (entries: AssetEntry[]): Record<string, number> => {
+  const latest: Record<string, AssetEntry> = {};
+  entries.forEach(entry => {
+    if (!latest[entry.platform] || entry.date > latest[entry.platform].date) {
+      latest[entry.platform] = entry;
+    }
+  });
+  return Object.fromEntries(Object.entries(latest).map(([platform, entry]) => [platform, entry.rate]));
+};
+
+/**
+ * Net transfers into each platform after the comparison date, up to and including the selected
+ * one. Without a history only the selected date's transfers are known.
+ */
+const getTransferFlowsSince = (
+  currentEntries: AssetEntry[],
+  previousEntries: AssetEntry[],
+  historyEntries: AssetEntry[]
+): Record<string, number> => {
+  const currentDate = currentEntries[0]?.date;
+  const previousDate = previousEntries[0]?.date;
+  const entries = historyEntries.length > 0 && previousDate
+    ? historyEntries.filter(entry => entry.date > previousDate && entry.date <= currentDate)
+    : currentEntries;
+
+  const flows: Record<string, number> = {};
+  entries.forEach(entry => {
+    flows[entry.platform] = (flows[entry.platform] || 0) + getTransferFlow(entry);
+  });
+  return flows;
+};
+
+// Calculate summary stats for a given date; `historyEntries` (entries up to it) lets transfers
+// on dates between the comparison date and the selected one be left out of the change
 export const calculateSummary = (
   currentEntries: AssetEntry[],
-  previousEntries: AssetEntry[]
+  previousEntries: AssetEntry[],
+  historyEntries: AssetEntry[] = []
 ): AssetSummary => {
   if (!currentEntries || currentEntries.length === 0) {
     return {
       totalValue: 0,
+      totalAssets: 0,
+      totalLiabilities: 0,
       totalPreviousValue: 0,
       percentChange: 0,
       absoluteChange: 0,
       avgRate: 0,
+      liabilityRate: 0,
       largestHolding: { platform: '', amount: 0 },
       platforms: [],
       platformData: {}
@@ -193,6 +237,8 @@ export const calculateSummary = (
   
   const totalValue = calculateTotalForDate(currentEntries);
   const totalPreviousValue = calculateTotalForDate(previousEntries);
+  const totalAssets = currentEntries.reduce((sum, entry) => sum + Math.max(entry.amount, 0), 0);
+  const totalLiabilities = totalAssets - totalValue;
   
   // Calculate largest holding
   let largestAmount = 0;
@@ -203,6 +249,8 @@ export const calculateSummary = (
   const platformData: AssetSummary['platformData'] = {};
   
   let weightedRateSum = 0;
+  let weightedLiabilityRateSum = 0;
+  const transferFlows = getTransferFlowsSince(currentEntries, previousEntries, historyEntries);
   
   currentEntries.forEach(entry => {
     if (!platforms.includes(entry.platform)) {
@@ -214,20 +262,30 @@ export const calculateSummary = (
       largestPlatform = entry.platform;
     }
     
-    // Sum of (amount * rate) for weighted average
-    weightedRateSum += entry.amount * entry.rate;
+    // Sum of (amount * rate) for weighted averages; a liability's rate is its interest rate
+    if (entry.amount >= 0) {
+      weightedRateSum += entry.amount * entry.rate;
+    } else {
+      weightedLiabilityRateSum += -entry.amount * entry.rate;
+    }
     
+    // A transfer is an outflow on one platform and an inflow on the other, not a gain or loss
     const previousAmount = getPreviousPlatformAmount(entry.platform, previousEntries);
-    const absoluteChange = entry.amount - previousAmount;
-    const percentChange = previousAmount > 0 ? (absoluteChange / previousAmount) * 100 : 0;
+    const transferFlow = transferFlows[entry.platform] || 0;
+    const absoluteChange = entry.amount - previousAmount - transferFlow;
+    const startingAmount = previousAmount + transferFlow;
+    const percentChange = startingAmount > 0 ? (absoluteChange / startingAmount) * 100 : 0;
     
     platformData[entry.platform] = {
       amount: entry.amount,
       rate: entry.rate,
-      percentage: (entry.amount / totalValue) * 100,
+      percentage: entry.amount >= 0
+        ? (totalAssets > 0 ? (entry.amount / totalAssets) * 100 : 0)
+        : (-entry.amount / totalLiabilities) * 100,
       previousAmount,
       percentChange,
-      absoluteChange
+      absoluteChange,
+      transferFlow: transferFlow || undefined
     };
   });
   
@@ -247,16 +305,20 @@ export const calculateSummary = (
   });
   
   // Calculate weighted average rate
-  const avgRate = totalValue > 0 ? weightedRateSum / totalValue : 0;
+  const avgRate = totalAssets > 0 ? weightedRateSum / totalAssets : 0;
+  const liabilityRate = totalLiabilities > 0 ? weightedLiabilityRateSum / totalLiabilities : 0;
   const absoluteChange = totalValue - totalPreviousValue;
   const percentChange = totalPreviousValue > 0 ? (absoluteChange / totalPreviousValue) * 100 : 0;
   
   return {
     totalValue,
+    totalAssets,
+    totalLiabilities,
     totalPreviousValue,
     percentChange,
     absoluteChange,
     avgRate,
+    liabilityRate,
     largestHolding: {
       platform: largestPlatform,
       amount: largestAmount
@@ -309,11 +371,23 @@ export const calculateMonthlyRates = (
   return { dates: formattedDates, expectedRates, realizedRates };
 };
 
+// Currency of entries saved before multi-currency support
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currency used when formatCurrency is called without one (the reporting base currency)
+let displayCurrency = DEFAULT_CURRENCY;
+
+export const setDisplayCurrency = (currency: string): void => {
+  displayCurrency = currency;
+};
+
+export const getDisplayCurrency = (): string => displayCurrency;
+
 // Format numbers as currency
-export const formatCurrency = (value: number): string => {
+export const formatCurrency = (value: number, currency: string = displayCurrency): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0
   }).format(value);
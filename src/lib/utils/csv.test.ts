@@ -0,0 +1,89 @@
+import Papa from 'papaparse';
+import { describe, expect, it } from 'vitest';
+import { assetDb, backupDb, platformMetaDb } from '../db';
+import { applyCSVImport, convertImportRows, exportCSV, type CSVRow } from './csv';
+
+const row = (Amount: string, extra: Partial<CSVRow> = {}): CSVRow =>
+  ({ Date: '2024-01-31', Platform: 'Savings', Amount, Rate: '2', ...extra });
+
+describe('convertImportRows number format', () => {
+  it('reads a comma as a thousands separator with a decimal point', () => {
+    const result = convertImportRows([row('1,234'), row('1,234,567.89')]);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.map(entry => entry.amount)).toEqual([1234, 1234567.89]);
+  });
+
+  it('reads decimal commas when chosen', () => {
+    const result = convertImportRows([row('1234,56'), row('1.234,5', { Rate: '2,5' })], false, 2, ',');
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.map(entry => [entry.amount, entry.rate])).toEqual([[1234.56, 2], [1234.5, 2.5]]);
+  });
+
+  it('rejects numbers that do not fit the chosen format instead of guessing', () => {
+    const pointFile = convertImportRows([row('1234,56')]);
+    expect(pointFile.success).toBe(false);
+    expect(pointFile.errors?.[0]).toContain('Amount "1234,56"');
+
+    const commaFile = convertImportRows([row('1.5')], false, 2, ',');
+    expect(commaFile.success).toBe(false);
+  });
+});
+
+describe('convertImportRows transaction types', () => {
+  it('imports a contribution with a negative amount as a withdrawal and says so', () => {
+    const result = convertImportRows([row('500', { TransactionType: 'contribution', ContributionAmount: '-300' })]);
+    expect(result.data?.map(entry => [entry.transactionType, entry.contributionAmount])).toEqual([['withdrawal', -300]]);
+    expect(result.warnings).toEqual([expect.stringContaining('Row 2: Contribution with a negative ContributionAmount')]);
+  });
+});
+
+describe('CSV round trip', () => {
+  it('keeps the lots a specific-ID withdrawal sells', async () => {
+    await assetDb.add({ date: '2021-03-01', platform: 'Brokerage', amount: 1000, rate: 7, transactionType: 'contribution', contributionAmount: 1000 });
+    await assetDb.add({ date: '2022-06-15', platform: 'Brokerage', amount: 2100, rate: 7, transactionType: 'contribution', contributionAmount: 1000 });
+    await assetDb.add({
+      date: '2023-09-30',
+      platform: 'Brokerage',
+      amount: 1500,
+      rate: 7,
+      transactionType: 'withdrawal',
+      contributionAmount: -700,
+      closesLots: ['2022-06-15', '2021-03-01']
+    });
+
+    const exported = await exportCSV();
+    expect(exported.success).toBe(true);
+    const rows = Papa.parse<CSVRow>(exported.csvString!, { header: true, skipEmptyLines: true }).data;
+    expect(rows[2].ClosesLots).toBe('2022-06-15;2021-03-01');
+
+    const reimported = convertImportRows(rows);
+    expect(reimported.errors).toBeUndefined();
+    expect(reimported.data?.map(entry => entry.closesLots)).toEqual([undefined, undefined, ['2022-06-15', '2021-03-01']]);
+  });
+
+  it('rejects lots that are not dates', () => {
+    const result = convertImportRows([row('500', { TransactionType: 'withdrawal', ContributionAmount: '-100', ClosesLots: 'first lot' })]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('applyCSVImport', () => {
+  it('saves platform settings in the portfolio the rows were routed to', async () => {
+    const partner = { id: 'partner', name: 'Partner' };
+    const entry = { date: '2024-01-31', platform: 'Partner IRA', amount: 5000, rate: 6, transactionType: 'snapshot' as const };
+    const result = await applyCSVImport({
+      rows: [{ entry, status: 'new', changes: [], portfolio: partner }],
+      counts: { new: 1, identical: 0, changed: 0 },
+      warnings: [],
+      errors: [],
+      platformBenchmarks: { 'Partner IRA': 'S&P 500' },
+      platformAccountTypes: { 'Partner IRA': 'ira' }
+    }, 'skip');
+    expect(result.success).toBe(true);
+
+    const partnerData = await backupDb.exportAll(partner.id);
+    expect(partnerData.assets).toHaveLength(1);
+    expect(partnerData.platformMeta).toEqual([{ platform: 'Partner IRA', benchmark: 'S&P 500', accountType: 'ira' }]);
+    expect(await platformMetaDb.getAll()).not.toHaveProperty('Partner IRA');
+  });
+});
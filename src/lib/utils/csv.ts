@@ -1,19 +1,96 @@
 import Papa from 'papaparse';
-import type { AssetEntry } from '../db';
-import { assetDb, ALLOWED_PLATFORMS } from '../db';
+import type { AccountType, AssetEntry, BenchmarkSeries, FxRate, JournalRecord, PlatformMeta, Portfolio, TransactionType } from '../db';
+import { assetDb, backupDb, platformMetaDb, ALLOWED_PLATFORMS, TRANSACTION_TYPES } from '../db';
+import { buildTransactionFields, isIncomeType, validateTransactionAmount } from './transactions';
+import { ACCOUNT_TYPE_LABELS, parseAccountType } from './accountTypes';
+import {
+  applyImportPreview,
+  buildImportPreview,
+  mergeImportPreviews,
+  type DuplicateStrategy,
+  type ImportPreview
+} from './importPreview';
+import { HOUSEHOLD_ID, findPortfolioByName, loadActivePortfolioId, loadPortfolios } from './portfolios';
 
-interface CSVRow {
+// One row of an import, as text; other formats (see ofx.ts) build these to share the validation
+export interface CSVRow {
   Date: string;
   Platform: string;
   Amount: string;
   Rate: string;
   TransactionType?: string;
   ContributionAmount?: string;
+  IncomeAmount?: string;
   AccountType?: string;
   Benchmark?: string;
+  Currency?: string;
+  TransferId?: string;
+  TransferPlatform?: string;
+  ClosesLots?: string;
   Notes?: string;
+  Portfolio?: string;
 }
 
+// Columns written by exportCSV; Date, Platform, Amount and Rate are always included,
+// Portfolio when several portfolios are exported
+export type CSVColumn =
+  | 'Portfolio'
+  | 'Date'
+  | 'Platform'
+  | 'Amount'
+  | 'Rate'
+  | 'TransactionType'
+  | 'ContributionAmount'
+  | 'IncomeAmount'
+  | 'Currency'
+  | 'AccountType'
+  | 'Benchmark'
+  | 'TransferId'
+  | 'TransferPlatform'
+  | 'ClosesLots'
+  | 'Notes';
+
+export const REQUIRED_CSV_COLUMNS: CSVColumn[] = ['Date', 'Platform', 'Amount', 'Rate'];
+
+export const OPTIONAL_CSV_COLUMNS: CSVColumn[] = [
+  'TransactionType',
+  'ContributionAmount',
+  'IncomeAmount',
+  'Currency',
+  'AccountType',
+  'Benchmark',
+  'TransferId',
+  'TransferPlatform',
+  'ClosesLots',
+  'Notes'
+];
+
+// Specific-ID lot selections are written as the lots' open dates joined with semicolons
+const LOT_SEPARATOR = ';';
+
+// Decimal separator of a file's numbers; the other one may separate thousands
+export type CSVDecimal = '.' | ',';
+
+export interface CSVExportOptions {
+  columns: CSVColumn[];
+  startDate?: string;    // inclusive, YYYY-MM-DD
+  endDate?: string;      // inclusive, YYYY-MM-DD
+  platforms?: string[];  // empty or missing exports every platform
+  delimiter: ',' | ';' | '\t';
+  decimal: CSVDecimal;
+  portfolios?: Portfolio[];  // export these portfolios with a Portfolio column; missing exports the active one
+}
+
+// Every column, comma-separated with a decimal point: re-imports without losing anything
+export const DEFAULT_CSV_EXPORT_OPTIONS: CSVExportOptions = {
+  columns: [...REQUIRED_CSV_COLUMNS, ...OPTIONAL_CSV_COLUMNS],
+  delimiter: ',',
+  decimal: '.'
+};
+
+// Numeric columns that may use a decimal comma
+const NUMERIC_COLUMNS = ['Amount', 'Rate', 'ContributionAmount', 'IncomeAmount'] as const;
+
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -42,9 +119,72 @@ const isValidPlatform = (platform: string): boolean => {
   return trimmed.length > 0 && trimmed.length <= 50;
 };
 
+const isValidCurrency = (code?: string): boolean => {
+  if (!code) return false;
+  return /^[A-Z]{3}$/.test(code.trim().toUpperCase());
+};
+
 const isValidTransactionType = (type?: string): boolean => {
   if (!type) return true; // Optional field
-  return ['snapshot', 'contribution'].includes(type.toLowerCase());
+  return TRANSACTION_TYPES.includes(type.trim().toLowerCase() as TransactionType);
+};
+
+/**
+ * A number written with the given decimal separator ("1,234.56" or "1.234,56") as "1234.56".
+ * Null when the other separator isn't grouping thousands, e.g. "1234,56" read with a decimal
+ * point: the file most likely uses the other convention, so it isn't guessed.
+ */
+const normalizeNumber = (value: string, decimal: CSVDecimal): string | null => {
+  const compact = value.trim().replace(/\s/g, '');
+  const thousands = decimal === '.' ? ',' : '.';
+  const [integer, ...fraction] = compact.split(decimal);
+  if (fraction.length > 1 || fraction.some(part => part.includes(thousands))) return null;
+  const grouped = decimal === '.' ? /^[-+]?\d{1,3}(,\d{3})+$/ : /^[-+]?\d{1,3}(\.\d{3})+$/;
+  if (integer.includes(thousands) && !grouped.test(integer)) return null;
+  return [integer.split(thousands).join(''), ...fraction].join('.');
+};
+
+const normalizeRowNumbers = (row: CSVRow, rowIndex: number, decimal: CSVDecimal): { row: CSVRow; errors: string[] } => {
+  const normalized = { ...row };
+  const errors: string[] = [];
+  for (const column of NUMERIC_COLUMNS) {
+    const value = normalized[column];
+    if (typeof value === 'string' && value.trim()) {
+      const number = normalizeNumber(value, decimal);
+      if (number === null) {
+        errors.push(`Row ${rowIndex}: ${column} "${value.trim()}" doesn't match the decimal ${decimal === '.' ? 'point' : 'comma'} format; check the number format chosen for the import`);
+      } else {
+        normalized[column] = number;
+      }
+    }
+  }
+  return { row: normalized, errors };
+};
+
+// Open dates of the lots a withdrawal sells, in order
+const parseClosesLots = (text?: string): string[] =>
+  (text || '').split(LOT_SEPARATOR).map(lot => lot.trim()).filter(Boolean);
+
+// Explicit TransactionType, or inferred from the amount columns for older files
+const getRowTransaction = (row: CSVRow): { type: TransactionType; amount: number } => {
+  const contribution = row.ContributionAmount?.trim() ? parseFloat(row.ContributionAmount) : 0;
+  const income = row.IncomeAmount?.trim() ? parseFloat(row.IncomeAmount) : 0;
+  const explicitType = row.TransactionType?.trim().toLowerCase() as TransactionType | undefined;
+  
+  // Files from before withdrawals had a type of their own list them as negative contributions
+  if (explicitType === 'contribution' && contribution < 0) {
+    return { type: 'withdrawal', amount: contribution };
+  }
+  if (explicitType) {
+    return { type: explicitType, amount: isIncomeType(explicitType) ? income : contribution };
+  }
+  if (contribution) {
+    return { type: contribution > 0 ? 'contribution' : 'withdrawal', amount: contribution };
+  }
+  if (income) {
+    return { type: income > 0 ? 'dividend' : 'fee', amount: income };
+  }
+  return { type: 'snapshot', amount: 0 };
 };
 
 const validateRow = (row: CSVRow, rowIndex: number): ValidationResult => {
@@ -63,11 +203,9 @@ const validateRow = (row: CSVRow, rowIndex: number): ValidationResult => {
   if (!isValidNumber(row.Amount)) {
     errors.push(`Row ${rowIndex}: Amount must be a valid number (e.g., 15000.50)`);
   } else {
+    // Negative amounts are liabilities (mortgages, loans, card balances)
     const amount = parseFloat(row.Amount);
-    if (amount < 0) {
-      errors.push(`Row ${rowIndex}: Amount cannot be negative`);
-    }
-    if (amount > 1000000000) {
+    if (Math.abs(amount) > 1000000000) {
       warnings.push(`Row ${rowIndex}: Amount seems unusually large (${amount})`);
     }
   }
@@ -83,13 +221,36 @@ const validateRow = (row: CSVRow, rowIndex: number): ValidationResult => {
   
   // Optional field validations
   if (row.TransactionType && !isValidTransactionType(row.TransactionType)) {
-    errors.push(`Row ${rowIndex}: TransactionType must be 'snapshot' or 'contribution'`);
+    errors.push(`Row ${rowIndex}: TransactionType must be one of ${TRANSACTION_TYPES.join(', ')}`);
   }
   
   if (row.ContributionAmount && !isValidNumber(row.ContributionAmount)) {
     errors.push(`Row ${rowIndex}: ContributionAmount must be a valid number if provided`);
   }
   
+  if (row.IncomeAmount && !isValidNumber(row.IncomeAmount)) {
+    errors.push(`Row ${rowIndex}: IncomeAmount must be a valid number if provided`);
+  }
+  
+  if (errors.length === 0 && isValidTransactionType(row.TransactionType)) {
+    const { type, amount } = getRowTransaction(row);
+    const amountError = validateTransactionAmount(type, amount);
+    if (amountError) {
+      const column = isIncomeType(type) ? 'IncomeAmount' : 'ContributionAmount';
+      errors.push(`Row ${rowIndex}: ${amountError} in ${column}`);
+    } else if (type === 'withdrawal' && row.TransactionType?.trim().toLowerCase() === 'contribution') {
+      warnings.push(`Row ${rowIndex}: Contribution with a negative ContributionAmount (${amount}) will be imported as a withdrawal`);
+    }
+  }
+  
+  if (row.Currency?.trim() && !isValidCurrency(row.Currency)) {
+    errors.push(`Row ${rowIndex}: Currency must be a 3-letter ISO code (e.g., EUR)`);
+  }
+  
+  if (parseClosesLots(row.ClosesLots).some(lot => !isValidDate(lot))) {
+    errors.push(`Row ${rowIndex}: ClosesLots must be lot dates (YYYY-MM-DD) separated by "${LOT_SEPARATOR}"`);
+  }
+  
   return {
     isValid: errors.length === 0,
     errors,
@@ -97,9 +258,13 @@ const validateRow = (row: CSVRow, rowIndex: number): ValidationResult => {
   };
 };
 
-export const parseCSV = async (file: File): Promise<{
+// Validated entries of an import file, ready to be previewed
+export interface ParsedImport {
   success: boolean;
   data?: Omit<AssetEntry, 'id'>[];
+  portfolioNames?: string[];                    // Portfolio column of each entry in `data`, if the file has one
+  platformBenchmarks?: Record<string, string>;  // platform → benchmark name from the Benchmark column
+  platformAccountTypes?: Record<string, AccountType>;  // platform → account type from the AccountType column
   errors?: string[];
   warnings?: string[];
   summary?: {
@@ -107,7 +272,108 @@ export const parseCSV = async (file: File): Promise<{
     validRows: number;
     invalidRows: number;
   };
-}> => {
+}
+
+/**
+ * Validate rows and convert the valid ones into entries.
+ * Rows with errors are left out; the import still succeeds if any row is valid.
+ * Numbers are read with the `decimal` separator; the other one may only group thousands.
+ */
+export const convertImportRows = (
+  data: CSVRow[],
+  hasPortfolioColumn = false,
+  firstRowNumber = 2,  // row number of data[0] in messages; 2 skips a CSV header
+  decimal: CSVDecimal = '.'
+): ParsedImport => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const validEntries: Omit<AssetEntry, 'id'>[] = [];
+  const portfolioNames: string[] = [];
+  const platformBenchmarks: Record<string, string> = {};
+  const platformAccountTypes: Record<string, AccountType> = {};
+  let validRowCount = 0;
+  
+  data.forEach((rawRow, index) => {
+    const rowNumber = index + firstRowNumber;
+    const { row, errors: numberErrors } = normalizeRowNumbers(rawRow, rowNumber, decimal);
+    const validation = validateRow(row, rowNumber);
+    
+    errors.push(...numberErrors, ...validation.errors);
+    warnings.push(...validation.warnings);
+    
+    if (validation.isValid && numberErrors.length === 0) {
+      validRowCount++;
+      
+      // Determine transaction type, signed amounts and data quality
+      const { type, amount } = getRowTransaction(row);
+      const transactionFields = buildTransactionFields(type, amount);
+      const isLinkedTransfer = transactionFields.transactionType === 'transfer' && !!row.TransferId?.trim();
+      const closesLots = parseClosesLots(row.ClosesLots);
+      
+      validEntries.push({
+        date: row.Date.trim(),
+        platform: row.Platform.trim(),
+        amount: parseFloat(row.Amount),
+        rate: parseFloat(row.Rate),
+        currency: row.Currency?.trim() ? row.Currency.trim().toUpperCase() : undefined,
+        ...transactionFields,
+        transferId: isLinkedTransfer ? row.TransferId!.trim() : undefined,
+        transferPlatform: isLinkedTransfer ? row.TransferPlatform?.trim() || undefined : undefined,
+        closesLots: closesLots.length > 0 ? closesLots : undefined,
+        notes: row.Notes?.trim() || undefined
+      });
+      if (hasPortfolioColumn) {
+        portfolioNames.push(row.Portfolio?.trim() || '');
+      }
+      
+      // Later rows win if a platform lists different benchmarks
+      if (row.Benchmark?.trim()) {
+        platformBenchmarks[row.Platform.trim()] = row.Benchmark.trim();
+      }
+      if (row.AccountType?.trim()) {
+        const accountType = parseAccountType(row.AccountType);
+        if (accountType) {
+          platformAccountTypes[row.Platform.trim()] = accountType;
+        } else {
+          warnings.push(`Row ${rowNumber}: Unknown account type "${row.AccountType.trim()}" ignored`);
+        }
+      }
+    }
+  });
+  
+  const summary = {
+    totalRows: data.length,
+    validRows: validRowCount,
+    invalidRows: data.length - validRowCount
+  };
+  
+  // If we have some valid entries but also errors, it's a partial success
+  if (validEntries.length > 0 && errors.length > 0) {
+    return { 
+      success: true, 
+      data: validEntries, 
+      portfolioNames: hasPortfolioColumn ? portfolioNames : undefined,
+      platformBenchmarks,
+      platformAccountTypes,
+      errors, 
+      warnings, 
+      summary 
+    };
+  } else if (errors.length > 0) {
+    return { success: false, errors, warnings, summary };
+  }
+  return {
+    success: true,
+    data: validEntries,
+    portfolioNames: hasPortfolioColumn ? portfolioNames : undefined,
+    platformBenchmarks,
+    platformAccountTypes,
+    warnings,
+    summary
+  };
+};
+
+export const parseCSV = async (file: File, decimal: CSVDecimal = '.'): Promise<ParsedImport> => {
   return new Promise((resolve) => {
     Papa.parse(file, {
       header: true,
@@ -115,7 +381,6 @@ export const parseCSV = async (file: File): Promise<{
       complete: (results) => {
         const data = results.data as CSVRow[];
         const errors: string[] = [];
-        const warnings: string[] = [];
         
         // Check file size
         if (file.size > 10 * 1024 * 1024) { // 10MB limit
@@ -150,57 +415,7 @@ export const parseCSV = async (file: File): Promise<{
           return;
         }
         
-        const validEntries: Omit<AssetEntry, 'id'>[] = [];
-        let validRowCount = 0;
-        
-        data.forEach((row, index) => {
-          const rowNumber = index + 2; // +2 because index is 0-based and we skip header
-          const validation = validateRow(row, rowNumber);
-          
-          errors.push(...validation.errors);
-          warnings.push(...validation.warnings);
-          
-          if (validation.isValid) {
-            validRowCount++;
-            
-            // Determine transaction type and data quality
-            const hasContribution = row.ContributionAmount && parseFloat(row.ContributionAmount) > 0;
-            const transactionType = row.TransactionType?.toLowerCase() as 'snapshot' | 'contribution' || 
-                                  (hasContribution ? 'contribution' : 'snapshot');
-            
-            validEntries.push({
-              date: row.Date.trim(),
-              platform: row.Platform.trim(),
-              amount: parseFloat(row.Amount),
-              rate: parseFloat(row.Rate),
-              transactionType,
-              contributionAmount: hasContribution ? parseFloat(row.ContributionAmount!) : undefined,
-              notes: row.Notes?.trim() || undefined,
-              dataQuality: hasContribution ? 'enhanced' : 'snapshot_only'
-            });
-          }
-        });
-        
-        const summary = {
-          totalRows: data.length,
-          validRows: validRowCount,
-          invalidRows: data.length - validRowCount
-        };
-        
-        // If we have some valid entries but also errors, it's a partial success
-        if (validEntries.length > 0 && errors.length > 0) {
-          resolve({ 
-            success: true, 
-            data: validEntries, 
-            errors, 
-            warnings, 
-            summary 
-          });
-        } else if (errors.length > 0) {
-          resolve({ success: false, errors, warnings, summary });
-        } else {
-          resolve({ success: true, data: validEntries, warnings, summary });
-        }
+        resolve(convertImportRows(data, !!results.meta.fields?.includes('Portfolio'), 2, decimal));
       },
       error: (error) => {
         resolve({ 
@@ -212,10 +427,23 @@ export const parseCSV = async (file: File): Promise<{
   });
 };
 
-export const importCSV = async (file: File): Promise<{
+// Parsed CSV rows compared with stored data, waiting for the user to confirm
+export interface CSVImportPreview extends ImportPreview {
+  platformBenchmarks: Record<string, string>;
+  platformAccountTypes?: Record<string, AccountType>;
+  platformAccounts?: Record<string, string>;  // platform → statement account id, remembered for the next OFX import
+  errors: string[];
+  summary?: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+  };
+}
+
+export interface ImportPreviewResult {
   success: boolean;
   message: string;
-  count?: number;
+  preview?: CSVImportPreview;
   errors?: string[];
   warnings?: string[];
   summary?: {
@@ -223,14 +451,26 @@ export const importCSV = async (file: File): Promise<{
     validRows: number;
     invalidRows: number;
   };
-}> => {
+}
+
+/**
+ * Parse and validate a CSV file and compare its rows with stored entries (new / identical / changed).
+ * `decimal` is the file's decimal separator, as chosen for the export.
+ * Nothing is written until the preview is passed to `applyCSVImport`.
+ */
+export const previewCSVImport = async (file: File, decimal: CSVDecimal = '.'): Promise<ImportPreviewResult> =>
+  previewParsedImport(await parseCSV(file, decimal), 'CSV file');
+
+/**
+ * Compare parsed entries with stored ones, routing rows to the portfolio they name.
+ * `source` names the file in messages, e.g. "CSV file".
+ */
+export const previewParsedImport = async (result: ParsedImport, source: string): Promise<ImportPreviewResult> => {
   try {
-    const result = await parseCSV(file);
-    
     if (!result.success || !result.data) {
       return {
         success: false,
-        message: 'Failed to parse CSV file.',
+        message: `Failed to parse ${source}.`,
         errors: result.errors,
         warnings: result.warnings,
         summary: result.summary
@@ -240,80 +480,404 @@ export const importCSV = async (file: File): Promise<{
     if (result.data.length === 0) {
       return {
         success: false,
-        message: 'CSV file contains no valid entries.',
-        count: 0,
+        message: `${source} contains no valid entries.`,
         errors: result.errors,
         warnings: result.warnings,
         summary: result.summary
       };
     }
     
-    // Import the valid entries
-    await assetDb.addMultiple(result.data);
+    // Rows go to the portfolio named in the Portfolio column, or to the active portfolio
+    const portfolios = loadPortfolios();
+    const activeId = loadActivePortfolioId(portfolios);
+    const groups = new Map<Portfolio | undefined, Omit<AssetEntry, 'id'>[]>();
+    const unknownPortfolios = new Set<string>();
+    result.data.forEach((entry, index) => {
+      const name = result.portfolioNames?.[index];
+      const named = name ? findPortfolioByName(portfolios, name) : undefined;
+      if (name && !named) {
+        unknownPortfolios.add(name);
+        return;
+      }
+      const portfolio = named && named.id !== activeId ? named : undefined;
+      groups.set(portfolio, [...(groups.get(portfolio) || []), entry]);
+    });
     
-    // Create success message with details
-    let message = `Successfully imported ${result.data.length} entries.`;
+    if (unknownPortfolios.size > 0) {
+      return {
+        success: false,
+        message: `Unknown portfolios: ${[...unknownPortfolios].join(', ')}. Create them first (Data Management → Portfolios).`
+      };
+    }
+    if (activeId === HOUSEHOLD_ID && groups.has(undefined)) {
+      return {
+        success: false,
+        message: 'The household view is read-only. Switch to a portfolio, or add a Portfolio column naming one for every row.'
+      };
+    }
+    
+    const comparison = mergeImportPreviews(await Promise.all(
+      [...groups].map(([portfolio, entries]) => buildImportPreview(entries, portfolio))
+    ));
     
-    if (result.summary) {
-      const { totalRows, validRows, invalidRows } = result.summary;
-      if (invalidRows > 0) {
-        message += ` (${validRows} valid, ${invalidRows} skipped due to errors)`;
+    return {
+      success: true,
+      message: `${comparison.counts.new} new, ${comparison.counts.identical} already imported, ${comparison.counts.changed} changed.`,
+      preview: {
+        ...comparison,
+        warnings: [...(result.warnings || []), ...comparison.warnings],
+        platformBenchmarks: result.platformBenchmarks || {},
+        platformAccountTypes: result.platformAccountTypes || {},
+        errors: result.errors || [],
+        summary: result.summary
       }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      errors: [error instanceof Error ? error.message : 'Unknown error']
+    };
+  }
+};
+
+/**
+ * Write a confirmed preview in a single transaction (all rows or none),
+ * then remember benchmark assignments and account types from the Benchmark and AccountType columns.
+ */
+export const applyCSVImport = async (preview: CSVImportPreview, strategy: DuplicateStrategy): Promise<{
+  success: boolean;
+  message: string;
+  count?: number;
+  journal?: JournalRecord;  // change journal record of the import, for undo
+}> => {
+  try {
+    const { added, overwritten, skipped, journal } = await applyImportPreview(preview, strategy);
+    
+    // Platform settings from the file go to each portfolio the platform's rows were routed to
+    // (undefined is the active portfolio)
+    const platformPortfolios = new Map<string, Set<string | undefined>>();
+    for (const row of preview.rows) {
+      const portfolios = platformPortfolios.get(row.entry.platform) || new Set();
+      portfolios.add(row.portfolio?.id);
+      platformPortfolios.set(row.entry.platform, portfolios);
+    }
+    const updateMeta = async (platform: string, changes: Partial<Omit<PlatformMeta, 'platform'>>) => {
+      for (const portfolioId of platformPortfolios.get(platform) || [undefined]) {
+        await platformMetaDb.update(platform, changes, portfolioId);
+      }
+    };
+    
+    // Remember benchmark assignments from the Benchmark column
+    for (const [platform, benchmark] of Object.entries(preview.platformBenchmarks)) {
+      await updateMeta(platform, { benchmark });
+    }
+    for (const [platform, accountType] of Object.entries(preview.platformAccountTypes || {})) {
+      await updateMeta(platform, { accountType });
+    }
+    for (const [platform, statementAccount] of Object.entries(preview.platformAccounts || {})) {
+      await updateMeta(platform, { statementAccount });
+    }
+    
+    // Create success message with details
+    let message = `Successfully imported ${added} entries.`;
+    if (overwritten > 0) {
+      message += ` ${overwritten} existing entries updated.`;
+    }
+    if (skipped > 0) {
+      message += ` ${skipped} rows skipped as duplicates.`;
+    }
+    
+    if (preview.summary && preview.summary.invalidRows > 0) {
+      message += ` (${preview.summary.invalidRows} rows skipped due to errors)`;
     }
     
     // Add warnings summary if any
-    if (result.warnings && result.warnings.length > 0) {
-      message += ` Note: ${result.warnings.length} warnings found.`;
+    if (preview.warnings.length > 0) {
+      message += ` Note: ${preview.warnings.length} warnings found.`;
     }
     
     return {
       success: true,
       message,
-      count: result.data.length,
-      errors: result.errors,
-      warnings: result.warnings,
-      summary: result.summary
+      count: added + overwritten,
+      journal
     };
   } catch (error) {
     return {
       success: false,
-      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      errors: [error instanceof Error ? error.message : 'Unknown error']
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 };
 
-export const exportCSV = async (): Promise<{
+interface BenchmarkCSVRow {
+  Date: string;
+  Name?: string;
+  Benchmark?: string;
+  Value?: string;
+  Close?: string;
+  'Adj Close'?: string;
+  Price?: string;
+}
+
+/**
+ * Parse benchmark index levels. Expects a Date column and a Value (or Close / Adj Close / Price) column.
+ * An optional Name or Benchmark column allows several series in one file; otherwise `defaultName` is used.
+ */
+export const parseBenchmarkCSV = async (file: File, defaultName: string): Promise<{
+  success: boolean;
+  series?: BenchmarkSeries[];
+  errors?: string[];
+  warnings?: string[];
+}> => {
+  return new Promise((resolve) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const rows = results.data as BenchmarkCSVRow[];
+        const fields = results.meta.fields || [];
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        
+        const valueField = (['Value', 'Adj Close', 'Close', 'Price'] as const).find(field => fields.includes(field));
+        if (!fields.includes('Date') || !valueField) {
+          resolve({ success: false, errors: ['Missing required headers: Date and one of Value, Close, Adj Close or Price'] });
+          return;
+        }
+        
+        const hasNameColumn = fields.includes('Name') || fields.includes('Benchmark');
+        if (!hasNameColumn && !defaultName.trim()) {
+          resolve({ success: false, errors: ['Please enter a benchmark name or include a Name column'] });
+          return;
+        }
+        
+        const pointsByName = new Map<string, Map<string, number>>();
+        
+        rows.forEach((row, index) => {
+          const rowNumber = index + 2;
+          const name = (row.Name || row.Benchmark || defaultName).trim();
+          const value = row[valueField];
+          
+          if (!isValidDate(row.Date?.trim())) {
+            errors.push(`Row ${rowNumber}: Invalid date format. Expected YYYY-MM-DD (e.g., 2024-01-15)`);
+            return;
+          }
+          if (!value || !isValidNumber(value) || parseFloat(value) <= 0) {
+            errors.push(`Row ${rowNumber}: ${valueField} must be a positive number`);
+            return;
+          }
+          if (!name) {
+            errors.push(`Row ${rowNumber}: Benchmark name is missing`);
+            return;
+          }
+          
+          const points = pointsByName.get(name) || new Map<string, number>();
+          if (points.has(row.Date.trim())) {
+            warnings.push(`Row ${rowNumber}: Duplicate date ${row.Date.trim()} for ${name}; using the last value`);
+          }
+          points.set(row.Date.trim(), parseFloat(value));
+          pointsByName.set(name, points);
+        });
+        
+        const importedAt = new Date().toISOString();
+        const series: BenchmarkSeries[] = [...pointsByName.entries()].map(([name, points]) => ({
+          name,
+          importedAt,
+          points: [...points.entries()]
+            .map(([date, value]) => ({ date, value }))
+            .sort((a, b) => a.date.localeCompare(b.date))
+        }));
+        
+        if (series.length === 0) {
+          resolve({ success: false, errors: errors.length > 0 ? errors : ['CSV file contains no benchmark values.'], warnings });
+          return;
+        }
+        
+        resolve({ success: true, series, errors, warnings });
+      },
+      error: (error) => {
+        resolve({ 
+          success: false, 
+          errors: [`Failed to parse CSV file: ${error.message}`] 
+        });
+      }
+    });
+  });
+};
+
+interface FxRateCSVRow {
+  Date: string;
+  From?: string;
+  To?: string;
+  Currency?: string;
+  Base?: string;
+  Rate: string;
+}
+
+/**
+ * Parse exchange rates: Date, From, To, Rate where 1 From = Rate To (e.g. 2024-01-31,EUR,USD,1.08).
+ * Currency/Base are accepted as aliases for From/To.
+ */
+export const parseFxRatesCSV = async (file: File): Promise<{
+  success: boolean;
+  rates?: FxRate[];
+  errors?: string[];
+  warnings?: string[];
+}> => {
+  return new Promise((resolve) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const rows = results.data as FxRateCSVRow[];
+        const fields = results.meta.fields || [];
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        
+        const fromField = fields.includes('From') ? 'From' : (fields.includes('Currency') ? 'Currency' : undefined);
+        const toField = fields.includes('To') ? 'To' : (fields.includes('Base') ? 'Base' : undefined);
+        if (!fields.includes('Date') || !fields.includes('Rate') || !fromField || !toField) {
+          resolve({ success: false, errors: ['Missing required headers: Date, From, To and Rate'] });
+          return;
+        }
+        
+        const ratesByKey = new Map<string, FxRate>();
+        
+        rows.forEach((row, index) => {
+          const rowNumber = index + 2;
+          const from = row[fromField]?.trim().toUpperCase() || '';
+          const to = row[toField]?.trim().toUpperCase() || '';
+          const date = row.Date?.trim();
+          
+          if (!isValidDate(date)) {
+            errors.push(`Row ${rowNumber}: Invalid date format. Expected YYYY-MM-DD (e.g., 2024-01-15)`);
+            return;
+          }
+          if (!isValidCurrency(from) || !isValidCurrency(to) || from === to) {
+            errors.push(`Row ${rowNumber}: From and To must be two different 3-letter currency codes`);
+            return;
+          }
+          if (!isValidNumber(row.Rate) || parseFloat(row.Rate) <= 0) {
+            errors.push(`Row ${rowNumber}: Rate must be a positive number`);
+            return;
+          }
+          
+          const key = `${from}/${to}/${date}`;
+          if (ratesByKey.has(key)) {
+            warnings.push(`Row ${rowNumber}: Duplicate ${from}/${to} rate for ${date}; using the last value`);
+          }
+          ratesByKey.set(key, { from, to, date, rate: parseFloat(row.Rate) });
+        });
+        
+        const rates = [...ratesByKey.values()];
+        if (rates.length === 0) {
+          resolve({ success: false, errors: errors.length > 0 ? errors : ['CSV file contains no exchange rates.'], warnings });
+          return;
+        }
+        
+        resolve({ success: true, rates, errors, warnings });
+      },
+      error: (error) => {
+        resolve({ 
+          success: false, 
+          errors: [`Failed to parse CSV file: ${error.message}`] 
+        });
+      }
+    });
+  });
+};
+
+/**
+ * Export entries with the chosen columns and filters.
+ * With the default options every field is written, so the file re-imports through parseCSV unchanged.
+ */
+export const exportCSV = async (options: CSVExportOptions = DEFAULT_CSV_EXPORT_OPTIONS): Promise<{
   success: boolean;
   csvString?: string;
   filename?: string;
+  count?: number;
   message?: string;
 }> => {
   try {
-    const assets = await assetDb.getAll();
+    // Entries with the portfolio they come from and that portfolio's platform settings
+    const sources: { portfolio?: Portfolio; assets: AssetEntry[]; platformMeta: Record<string, PlatformMeta> }[] = options.portfolios
+      ? await Promise.all(options.portfolios.map(async portfolio => {
+          const snapshot = await backupDb.exportAll(portfolio.id);
+          return {
+            portfolio,
+            assets: snapshot.assets,
+            platformMeta: Object.fromEntries(snapshot.platformMeta.map(meta => [meta.platform, meta]))
+          };
+        }))
+      : [{ assets: await assetDb.getAll(), platformMeta: await platformMetaDb.getAll() }];
+    const assets = sources.flatMap(({ portfolio, assets, platformMeta }) =>
+      assets.map(asset => ({
+        ...asset,
+        portfolio,
+        benchmark: platformMeta[asset.platform]?.benchmark,
+        accountType: platformMeta[asset.platform]?.accountType
+      }))
+    );
+    const platforms = options.platforms && options.platforms.length > 0 ? new Set(options.platforms) : null;
     
-    if (assets.length === 0) {
+    const selected = assets
+      .filter(asset =>
+        (!options.startDate || asset.date >= options.startDate) &&
+        (!options.endDate || asset.date <= options.endDate) &&
+        (!platforms || platforms.has(asset.platform))
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.platform.localeCompare(b.platform));
+    
+    if (selected.length === 0) {
       return {
         success: false,
-        message: 'No data to export.'
+        message: assets.length === 0 ? 'No data to export.' : 'No entries match the selected dates and platforms.'
       };
     }
     
+    const columns: CSVColumn[] = [
+      ...(options.portfolios ? ['Portfolio' as const] : []),
+      ...REQUIRED_CSV_COLUMNS,
+      ...OPTIONAL_CSV_COLUMNS.filter(column => options.columns.includes(column))
+    ];
+    const formatNumber = (value: number | undefined): string => {
+      if (value === undefined || value === null) return '';
+      const text = value.toString();
+      return options.decimal === ',' ? text.replace('.', ',') : text;
+    };
+    
     // Convert assets to CSV format
-    const csvData = assets.map(asset => ({
-      Date: asset.date,
-      Platform: asset.platform,
-      Amount: asset.amount.toString(),
-      Rate: asset.rate.toString()
-    }));
+    const csvData = selected.map(asset => {
+      const values: Record<CSVColumn, string> = {
+        Portfolio: asset.portfolio?.name || '',
+        Date: asset.date,
+        Platform: asset.platform,
+        Amount: formatNumber(asset.amount),
+        Rate: formatNumber(asset.rate),
+        TransactionType: asset.transactionType,
+        ContributionAmount: formatNumber(asset.contributionAmount),
+        IncomeAmount: formatNumber(asset.incomeAmount),
+        Currency: asset.currency || '',
+        AccountType: asset.accountType ? ACCOUNT_TYPE_LABELS[asset.accountType] : '',
+        Benchmark: asset.benchmark || '',
+        TransferId: asset.transferId || '',
+        TransferPlatform: asset.transferPlatform || '',
+        ClosesLots: (asset.closesLots || []).join(LOT_SEPARATOR),
+        Notes: asset.notes || ''
+      };
+      return columns.map(column => values[column]);
+    });
     
-    const csvString = Papa.unparse(csvData);
+    const csvString = Papa.unparse({ fields: columns, data: csvData }, { delimiter: options.delimiter });
     const filename = `homestead-export-${new Date().toISOString().split('T')[0]}.csv`;
     
     return {
       success: true,
       csvString,
-      filename
+      filename,
+      count: selected.length
     };
   } catch (error) {
     return {
@@ -0,0 +1,189 @@
+import Papa from 'papaparse';
+import { assetDb, type ImportDateFormat, type ImportField, type ImportPreset } from '../db';
+import { getLatestRates } from './calculations';
+import {
+  convertImportRows,
+  previewParsedImport,
+  REQUIRED_CSV_COLUMNS,
+  type CSVRow,
+  type ImportPreviewResult
+} from './csv';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'Date',
+  'Platform',
+  'Amount',
+  'Rate',
+  'ContributionAmount',
+  'IncomeAmount',
+  'Currency',
+  'Notes'
+];
+
+export const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+// Header names suggesting a field, tried after an exact match
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  Date: /date|datum|fecha|posted|booking/i,
+  Platform: /platform|account name|portfolio|konto/i,
+  Amount: /balance|saldo|market value|value|amount|betrag/i,
+  Rate: /rate|yield|apy/i,
+  ContributionAmount: /deposit|contribution|withdrawal|cash flow/i,
+  IncomeAmount: /dividend|interest|income|fee/i,
+  Currency: /currency|ccy|w(ä|ae)hrung/i,
+  Notes: /note|memo|description|payee|reference/i
+};
+
+// A CSV file read as text cells, before any column is interpreted
+export interface CSVTable {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const readCSVTable = (file: File): Promise<CSVTable> => {
+  if (file.size > 10 * 1024 * 1024) {
+    return Promise.reject(new Error('File size too large. Maximum size is 10MB.'));
+  }
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: 'greedy',
+      transformHeader: header => header.trim(),
+      complete: (results) => {
+        if (results.data.length > 10000) {
+          reject(new Error('Too many rows. Maximum is 10,000 entries.'));
+          return;
+        }
+        resolve({ fileName: file.name, headers: results.meta.fields || [], rows: results.data });
+      },
+      error: (error) => reject(error)
+    });
+  });
+};
+
+// Whether the file already has our own headers and can skip the column mapper
+export const hasStandardColumns = (headers: string[]): boolean =>
+  REQUIRED_CSV_COLUMNS.every(column => headers.includes(column));
+
+// Guess field → header from the header names; each header is used once
+export const guessColumns = (headers: string[]): Partial<Record<ImportField, string>> => {
+  const columns: Partial<Record<ImportField, string>> = {};
+  const used = new Set<string>();
+  const assign = (match: (field: ImportField, header: string) => boolean) => {
+    for (const field of IMPORT_FIELDS) {
+      if (columns[field]) continue;
+      const header = headers.find(candidate => !used.has(candidate) && match(field, candidate));
+      if (header) {
+        columns[field] = header;
+        used.add(header);
+      }
+    }
+  };
+  assign((field, header) => header.toLowerCase() === field.toLowerCase());
+  assign((field, header) => HEADER_HINTS[field].test(header));
+  return columns;
+};
+
+// Pick the date format that reads every sample; day-first when a first part is above 12
+export const detectDateFormat = (values: string[]): ImportDateFormat => {
+  const samples = values.map(value => value.trim()).filter(Boolean);
+  if (samples.every(value => /^\d{4}-\d{1,2}-\d{1,2}/.test(value))) return 'YYYY-MM-DD';
+  if (samples.some(value => /^\d{1,2}\.\d{1,2}\.\d{2,4}/.test(value))) return 'DD.MM.YYYY';
+  const dayFirst = samples.some(value => {
+    const first = parseInt(value.split(/[/.-]/)[0], 10);
+    return first > 12 && first <= 31;
+  });
+  return dayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+};
+
+// Decimal comma when more samples end in ",d" or ",dd" than in ".d" or ".dd"
+export const detectDecimalSeparator = (values: string[]): '.' | ',' => {
+  const commas = values.filter(value => /,\d{1,2}\)?\s*\D*$/.test(value.trim())).length;
+  const points = values.filter(value => /\.\d{1,2}\)?\s*\D*$/.test(value.trim())).length;
+  return commas > points ? ',' : '.';
+};
+
+// A date in the given format as YYYY-MM-DD; unreadable values are returned as they are for validation to report
+export const parseDateValue = (value: string, dateFormat: ImportDateFormat): string => {
+  const text = value.trim();
+  const parts = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  if (!parts) return text;
+
+  const [, first, second, third] = parts;
+  const [year, month, day] = dateFormat === 'YYYY-MM-DD'
+    ? [first, second, third]
+    : dateFormat === 'MM/DD/YYYY'
+      ? [third, first, second]
+      : [third, second, first];
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * A formatted amount as a plain number string: strips currency symbols and codes,
+ * thousands separators and spaces, and reads "(1,234.56)" or "1234.56-" as negative.
+ */
+export const parseAmountValue = (value: string, decimalSeparator: '.' | ','): string => {
+  const text = value.trim();
+  if (!text) return '';
+
+  const negative = /\(.*\)/.test(text) || /^[^\d]*[-−]/.test(text) || /[-−]\s*$/.test(text);
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  const digits = text
+    .replace(/[^\d.,]/g, '')
+    .split(thousands).join('')
+    .replace(decimalSeparator, '.');
+  if (!digits) return text;
+  return negative ? `-${digits}` : digits;
+};
+
+// What a preset still needs before it can be used, or null
+export const validatePreset = (preset: ImportPreset): string | null => {
+  if (!preset.columns.Date) return 'Choose the date column';
+  if (!preset.columns.Amount) return 'Choose the balance (Amount) column';
+  if (!preset.columns.Platform && !preset.platform?.trim()) return 'Choose the platform column or enter a platform name';
+  return null;
+};
+
+/**
+ * Rows of the file as import rows. Without a Rate column each platform keeps the rate of its latest entry.
+ */
+export const applyColumnMapping = (
+  rows: Record<string, string>[],
+  preset: ImportPreset,
+  rates: Record<string, number> = {}
+): CSVRow[] => rows.map(row => {
+  const cell = (field: ImportField) => {
+    const header = preset.columns[field];
+    return header ? (row[header] ?? '').trim() : '';
+  };
+  const amount = (field: ImportField) => parseAmountValue(cell(field), preset.decimalSeparator) || undefined;
+  const platform = cell('Platform') || preset.platform?.trim() || '';
+
+  return {
+    Date: parseDateValue(cell('Date'), preset.dateFormat),
+    Platform: platform,
+    Amount: parseAmountValue(cell('Amount'), preset.decimalSeparator),
+    Rate: preset.columns.Rate ? parseAmountValue(cell('Rate'), preset.decimalSeparator) : String(rates[platform] ?? 0),
+    ContributionAmount: amount('ContributionAmount'),
+    IncomeAmount: amount('IncomeAmount'),
+    Currency: cell('Currency') || undefined,
+    Notes: cell('Notes') || undefined
+  };
+});
+
+/**
+ * Map a file's columns with a preset, then validate and compare the rows like a CSV in our own format.
+ */
+export const previewMappedImport = async (table: CSVTable, preset: ImportPreset): Promise<ImportPreviewResult> => {
+  try {
+    const rates = getLatestRates(await assetDb.getAll());
+    return await previewParsedImport(convertImportRows(applyColumnMapping(table.rows, preset, rates)), 'CSV file');
+  } catch (error) {
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { assetDb } from '../db';
+import { applyImportPreview, buildImportPreview } from './importPreview';
+
+describe('buildImportPreview', () => {
+  it('imports a date and platform listed twice in the file once, from the last row', async () => {
+    const entry = { date: '2024-05-31', platform: 'Crypto', rate: 0, transactionType: 'snapshot' as const };
+    const preview = await buildImportPreview([{ ...entry, amount: 100 }, { ...entry, amount: 250 }]);
+
+    expect(preview.rows.map(row => [row.status, row.entry.amount])).toEqual([['new', 250]]);
+    expect(preview.counts.new).toBe(1);
+    expect(preview.warnings).toEqual(['Crypto appears more than once on 2024-05-31 in this file; only the last row is imported']);
+
+    await applyImportPreview(preview, 'skip');
+    expect((await assetDb.getByDate('2024-05-31')).map(stored => stored.amount)).toEqual([250]);
+  });
+});
@@ -0,0 +1,139 @@
+import type { AssetEntry, JournalRecord, Portfolio } from '../db';
+import { assetDb } from '../db';
+import { DEFAULT_CURRENCY } from './calculations';
+
+// How a parsed row compares with what is already stored for its date and platform
+export type ImportRowStatus = 'new' | 'identical' | 'changed';
+
+// What to do with rows whose date and platform already exist but whose values differ
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'keep';
+
+export interface ImportFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface ImportPreviewRow {
+  entry: Omit<AssetEntry, 'id'>;
+  status: ImportRowStatus;
+  existing?: AssetEntry;
+  changes: ImportFieldChange[];
+  portfolio?: Portfolio;  // target when it is not the active portfolio
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  counts: Record<ImportRowStatus, number>;
+  warnings: string[];
+}
+
+// Fields compared between an imported row and the stored entry
+const COMPARED_FIELDS: { field: string; read: (entry: Omit<AssetEntry, 'id'>) => string }[] = [
+  { field: 'Amount', read: entry => String(entry.amount) },
+  { field: 'Rate', read: entry => String(entry.rate) },
+  { field: 'Type', read: entry => entry.transactionType },
+  { field: 'Contribution', read: entry => entry.contributionAmount !== undefined ? String(entry.contributionAmount) : '' },
+  { field: 'Income', read: entry => entry.incomeAmount !== undefined ? String(entry.incomeAmount) : '' },
+  { field: 'Currency', read: entry => entry.currency || DEFAULT_CURRENCY },
+  { field: 'Lots sold', read: entry => (entry.closesLots || []).join(', ') },
+  { field: 'Notes', read: entry => entry.notes || '' }
+];
+
+/**
+ * Compare parsed entries with stored entries on the same date and platform,
+ * in the given portfolio or the active one. A date and platform listed more than once
+ * in the file is previewed once, from its last row.
+ * Nothing is written; the preview is applied with `applyImportPreview`.
+ */
+export const buildImportPreview = async (
+  entries: Omit<AssetEntry, 'id'>[],
+  portfolio?: Portfolio
+): Promise<ImportPreview> => {
+  const dates = [...new Set(entries.map(entry => entry.date))];
+  const existingByDate = new Map<string, AssetEntry[]>();
+  for (const date of dates) {
+    existingByDate.set(date, await assetDb.getByDate(date, portfolio?.id));
+  }
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, identical: 0, changed: 0 };
+  const warnings: string[] = [];
+  const lastByKey = new Map<string, Omit<AssetEntry, 'id'>>();
+  for (const entry of entries) {
+    const key = `${entry.date}|${entry.platform}`;
+    if (lastByKey.has(key)) {
+      warnings.push(`${entry.platform} appears more than once on ${entry.date} in this file; only the last row is imported`);
+    }
+    lastByKey.set(key, entry);
+  }
+
+  const rows = [...lastByKey.values()].map(entry => {
+    const existing = existingByDate.get(entry.date)?.find(stored => stored.platform === entry.platform);
+    const changes = existing
+      ? COMPARED_FIELDS
+          .map(({ field, read }) => ({ field, from: read(existing), to: read(entry) }))
+          .filter(change => change.from !== change.to)
+      : [];
+    const status: ImportRowStatus = !existing ? 'new' : changes.length === 0 ? 'identical' : 'changed';
+
+    counts[status]++;
+    return { entry, status, existing, changes, portfolio };
+  });
+
+  return { rows, counts, warnings };
+};
+
+// Combine the previews of several portfolios into one
+export const mergeImportPreviews = (previews: ImportPreview[]): ImportPreview => ({
+  rows: previews.flatMap(preview => preview.rows),
+  counts: {
+    new: previews.reduce((sum, preview) => sum + preview.counts.new, 0),
+    identical: previews.reduce((sum, preview) => sum + preview.counts.identical, 0),
+    changed: previews.reduce((sum, preview) => sum + preview.counts.changed, 0)
+  },
+  warnings: previews.flatMap(preview => preview.warnings)
+});
+
+/**
+ * Write a preview, one transaction per portfolio. New rows are added and identical rows are skipped;
+ * changed rows follow the strategy: skip them, overwrite the stored entry, or keep both.
+ * Returns how many rows were added and overwritten, and the active portfolio's journal record
+ * when anything was written to it.
+ */
+export const applyImportPreview = async (
+  preview: ImportPreview,
+  strategy: DuplicateStrategy
+): Promise<{ added: number; overwritten: number; skipped: number; journal?: JournalRecord }> => {
+  const writesByPortfolio = new Map<string | undefined, { entry: Omit<AssetEntry, 'id'>; replaceId?: number }[]>();
+  let added = 0;
+  let overwritten = 0;
+
+  for (const row of preview.rows) {
+    const writes = writesByPortfolio.get(row.portfolio?.id) || [];
+    writesByPortfolio.set(row.portfolio?.id, writes);
+    if (row.status === 'new' || (row.status === 'changed' && strategy === 'keep')) {
+      writes.push({ entry: row.entry });
+      added++;
+    } else if (row.status === 'changed' && strategy === 'overwrite') {
+      // A transfer leg keeps its link unless the file carries one
+      const existing = row.existing!;
+      const keepLink = row.entry.transactionType === 'transfer' && !row.entry.transferId;
+      writes.push({
+        entry: keepLink
+          ? { ...row.entry, transferId: existing.transferId, transferPlatform: existing.transferPlatform }
+          : row.entry,
+        replaceId: existing.id
+      });
+      overwritten++;
+    }
+  }
+
+  let journal: JournalRecord | undefined;
+  for (const [portfolioId, writes] of writesByPortfolio) {
+    if (writes.length === 0) continue;
+    const record = await assetDb.importEntries(writes, portfolioId);
+    if (portfolioId === undefined) journal = record;
+  }
+
+  return { added, overwritten, skipped: preview.rows.length - added - overwritten, journal };
+};
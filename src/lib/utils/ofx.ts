@@ -0,0 +1,335 @@
+import { assetDb, platformMetaDb } from '../db';
+import { getLatestRates } from './calculations';
+import { convertImportRows, previewParsedImport, type CSVRow, type ImportPreviewResult } from './csv';
+
+// Transaction types that are part of the return rather than money moved in or out
+const INCOME_TRNTYPES = ['INT', 'DIV', 'FEE', 'SRVCHG'];
+
+// Statement transactions named in an entry's notes before the rest are counted
+const MAX_NOTE_NAMES = 3;
+
+// Element of an OFX document; SGML leaves carry a value and have no closing tag
+interface OFXNode {
+  name: string;
+  value?: string;
+  children: OFXNode[];
+}
+
+export interface OFXAccount {
+  accountId: string;
+  institution: string;        // FI organisation, bank id or broker id, whichever the file gives
+  kind: 'bank' | 'investment';
+  currency?: string;          // CURDEF of the statement
+  platform: string;           // platform the statement imports into; saved or suggested
+}
+
+export interface OFXTransaction {
+  date: string;    // YYYY-MM-DD
+  amount: number;  // signed, positive for money arriving
+  isFlow: boolean; // deposit or withdrawal, as opposed to interest, dividends and fees
+  name?: string;
+}
+
+export interface OFXStatement {
+  account: OFXAccount;
+  asOf: string;     // date of the closing balance
+  balance: number;  // LEDGERBAL, or positions plus cash for investment accounts
+  transactions: OFXTransaction[];
+}
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * Parse an OFX body into a tree. Works for SGML (1.x, leaves without closing tags)
+ * and XML (2.x) files: a tag followed by text is a leaf, anything else an aggregate.
+ */
+const parseOFXTree = (text: string): OFXNode => {
+  const root: OFXNode = { name: 'ROOT', children: [] };
+  const stack = [root];
+  let lastLeaf: OFXNode | null = null;
+  const start = text.search(/<OFX>/i);
+  const tagPattern = /<(\/?)([A-Za-z0-9._]+)>([^<]*)/g;
+  let match: RegExpExecArray | null;
+
+  tagPattern.lastIndex = Math.max(start, 0);
+  while ((match = tagPattern.exec(text)) !== null) {
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+
+    if (closing) {
+      // XML closes leaves too; SGML may skip closing tags, so unwind to the matching aggregate
+      if (lastLeaf?.name !== name) {
+        const index = stack.map(node => node.name).lastIndexOf(name);
+        if (index > 0) stack.length = index;
+      }
+      lastLeaf = null;
+      continue;
+    }
+
+    const node: OFXNode = { name, children: [] };
+    const value = decodeEntities(rawValue.trim());
+    stack[stack.length - 1].children.push(node);
+    if (value) {
+      node.value = value;
+      lastLeaf = node;
+    } else {
+      stack.push(node);
+      lastLeaf = null;
+    }
+  }
+
+  return root;
+};
+
+// First descendant with the given name
+const find = (node: OFXNode | undefined, name: string): OFXNode | undefined => {
+  if (!node) return undefined;
+  for (const child of node.children) {
+    if (child.name === name) return child;
+    const nested = find(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+// Every descendant with the given name (not looking inside matches)
+const findAll = (node: OFXNode | undefined, name: string): OFXNode[] => {
+  if (!node) return [];
+  return node.children.flatMap(child => child.name === name ? [child] : findAll(child, name));
+};
+
+const textOf = (node: OFXNode | undefined, name: string): string | undefined => find(node, name)?.value;
+
+// OFX amounts may use a decimal comma
+const numberOf = (node: OFXNode | undefined, name: string): number | undefined => {
+  const value = textOf(node, name);
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]] → YYYY-MM-DD
+const dateOf = (node: OFXNode | undefined, name: string): string | undefined => {
+  const value = textOf(node, name);
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+const parseTransaction = (node: OFXNode): OFXTransaction | null => {
+  const date = dateOf(node, 'DTPOSTED');
+  const amount = numberOf(node, 'TRNAMT');
+  if (!date || amount === undefined) return null;
+  return {
+    date,
+    amount,
+    isFlow: !INCOME_TRNTYPES.includes((textOf(node, 'TRNTYPE') || '').toUpperCase()),
+    name: textOf(node, 'NAME') || textOf(node, 'MEMO')
+  };
+};
+
+// Market value of the positions (converted with CURRATE where a position has its own currency) plus cash
+const investmentBalance = (statement: OFXNode): number | undefined => {
+  const positions = findAll(find(statement, 'INVPOSLIST'), 'INVPOS');
+  const cash = numberOf(find(statement, 'INVBAL'), 'AVAILCASH');
+  if (positions.length === 0 && cash === undefined) return undefined;
+
+  const marketValue = positions.reduce((sum, position) => {
+    const value = numberOf(position, 'MKTVAL') || 0;
+    const rate = numberOf(find(position, 'CURRENCY') || find(position, 'ORIGCURRENCY'), 'CURRATE') || 1;
+    return sum + value * rate;
+  }, 0);
+  return marketValue + (cash || 0);
+};
+
+/**
+ * Read the bank (STMTRS) and investment (INVSTMTRS) statements of an OFX or QFX file.
+ * Accounts are matched to platforms through `PlatformMeta.statementAccount`; new accounts get a suggested name.
+ */
+export const parseOFX = async (file: File): Promise<{
+  success: boolean;
+  statements?: OFXStatement[];
+  warnings?: string[];
+  message?: string;
+}> => {
+  if (file.size > 10 * 1024 * 1024) {
+    return { success: false, message: 'File size too large. Maximum size is 10MB.' };
+  }
+
+  try {
+    const root = parseOFXTree(await file.text());
+    if (!find(root, 'OFX')) {
+      return { success: false, message: 'This is not an OFX or QFX file.' };
+    }
+
+    const organisation = textOf(find(root, 'FI'), 'ORG');
+    const platformMeta = Object.values(await platformMetaDb.getAll());
+    const warnings: string[] = [];
+    const statements: OFXStatement[] = [];
+
+    const addStatement = (
+      statement: OFXNode,
+      kind: OFXAccount['kind'],
+      accountNode: OFXNode | undefined,
+      institutionTag: string,
+      balance: number | undefined,
+      asOf: string | undefined,
+      transactionNodes: OFXNode[]
+    ) => {
+      const accountId = textOf(accountNode, 'ACCTID');
+      if (!accountId) return;
+      const institution = organisation || textOf(accountNode, institutionTag) || '';
+      if (balance === undefined || !asOf) {
+        warnings.push(`Account ${accountId}: no closing balance in the statement, skipped`);
+        return;
+      }
+
+      const saved = platformMeta.find(meta => meta.statementAccount === accountId);
+      statements.push({
+        account: {
+          accountId,
+          institution,
+          kind,
+          currency: textOf(statement, 'CURDEF'),
+          platform: saved?.platform || `${institution || 'Account'} ${accountId.slice(-4)}`.trim()
+        },
+        asOf,
+        balance,
+        transactions: transactionNodes
+          .map(parseTransaction)
+          .filter((transaction): transaction is OFXTransaction => transaction !== null)
+      });
+    };
+
+    for (const statement of findAll(root, 'STMTRS')) {
+      const ledger = find(statement, 'LEDGERBAL');
+      addStatement(
+        statement,
+        'bank',
+        find(statement, 'BANKACCTFROM'),
+        'BANKID',
+        numberOf(ledger, 'BALAMT'),
+        dateOf(ledger, 'DTASOF'),
+        findAll(find(statement, 'BANKTRANLIST'), 'STMTTRN')
+      );
+    }
+
+    for (const statement of findAll(root, 'INVSTMTRS')) {
+      addStatement(
+        statement,
+        'investment',
+        find(statement, 'INVACCTFROM'),
+        'BROKERID',
+        investmentBalance(statement),
+        dateOf(statement, 'DTASOF'),
+        findAll(find(statement, 'INVTRANLIST'), 'INVBANKTRAN').flatMap(transaction => findAll(transaction, 'STMTTRN'))
+      );
+    }
+
+    if (statements.length === 0) {
+      return { success: false, message: 'No bank or investment statements found in the file.', warnings };
+    }
+    return { success: true, statements, warnings };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to read OFX file: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * Turn statements into import rows: a snapshot (or flow entry) with the closing balance on its date,
+ * plus a contribution or withdrawal on each earlier day with deposits or withdrawals. Balances on those
+ * days are worked back from the closing balance; interest, dividends and fees only adjust them.
+ * Rates are taken from the platform's latest stored entry.
+ */
+const buildStatementRows = (statement: OFXStatement, rate: string): { rows: CSVRow[]; warnings: string[] } => {
+  const { account, asOf, balance } = statement;
+  const warnings: string[] = [];
+  const transactions = statement.transactions.filter(transaction => {
+    if (transaction.date <= asOf) return true;
+    warnings.push(`${account.platform}: transaction on ${transaction.date} is after the closing balance, skipped`);
+    return false;
+  });
+  if (account.kind === 'investment' && transactions.some(transaction => transaction.date < asOf)) {
+    warnings.push(`${account.platform}: balances before ${asOf} are estimated; market movements are not in the statement`);
+  }
+
+  const flowDays = new Map<string, OFXTransaction[]>();
+  transactions
+    .filter(transaction => transaction.isFlow)
+    .forEach(transaction => flowDays.set(transaction.date, [...(flowDays.get(transaction.date) || []), transaction]));
+  if (!flowDays.has(asOf)) flowDays.set(asOf, []);
+
+  const rows = [...flowDays.keys()].sort().map(date => {
+    const dayFlows = flowDays.get(date)!;
+    const netFlow = dayFlows.reduce((sum, transaction) => sum + transaction.amount, 0);
+    const laterAmounts = transactions
+      .filter(transaction => transaction.date > date)
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+    const names = dayFlows.map(transaction => transaction.name).filter(Boolean);
+    const notes = names.length > MAX_NOTE_NAMES
+      ? `${names.slice(0, MAX_NOTE_NAMES).join('; ')} and ${names.length - MAX_NOTE_NAMES} more`
+      : names.join('; ');
+
+    const row: CSVRow = {
+      Date: date,
+      Platform: account.platform,
+      Amount: (balance - laterAmounts).toFixed(2),
+      Rate: rate,
+      Currency: account.currency,
+      Notes: notes || undefined
+    };
+    if (Math.abs(netFlow) >= 0.005) {
+      row.TransactionType = netFlow > 0 ? 'contribution' : 'withdrawal';
+      row.ContributionAmount = netFlow.toFixed(2);
+    } else {
+      row.TransactionType = 'snapshot';
+    }
+    return row;
+  });
+
+  return { rows, warnings };
+};
+
+/**
+ * Build entries from parsed statements, with each account's chosen platform name,
+ * and compare them with stored data through the same path as CSV imports.
+ */
+export const previewOFXImport = async (
+  statements: OFXStatement[],
+  parseWarnings: string[] = []
+): Promise<ImportPreviewResult> => {
+  try {
+    statements = statements.map(statement => ({
+      ...statement,
+      account: { ...statement.account, platform: statement.account.platform.trim() }
+    }));
+    const latestRates = getLatestRates(await assetDb.getAll());
+
+    const rows: CSVRow[] = [];
+    const warnings = [...parseWarnings];
+    for (const statement of statements) {
+      const built = buildStatementRows(statement, String(latestRates[statement.account.platform] ?? 0));
+      rows.push(...built.rows);
+      warnings.push(...built.warnings);
+    }
+
+    const parsed = convertImportRows(rows, false, 1);
+    const result = await previewParsedImport({ ...parsed, warnings: [...warnings, ...(parsed.warnings || [])] }, 'OFX file');
+    if (result.preview) {
+      result.preview.platformAccounts = Object.fromEntries(
+        statements.map(({ account }) => [account.platform, account.accountId])
+      );
+    }
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const isOFXFile = (file: File): boolean => /\.(ofx|qfx)$/i.test(file.name);
@@ -0,0 +1,48 @@
+import { DEFAULT_PORTFOLIO_ID, type Portfolio } from '../db';
+
+// Read-only view combining every portfolio
+export const HOUSEHOLD_ID = 'household';
+
+// The portfolio list and the active one are preferences, kept in localStorage
+const PORTFOLIOS_KEY = 'homestead-portfolios';
+const ACTIVE_PORTFOLIO_KEY = 'homestead-active-portfolio';
+
+export const DEFAULT_PORTFOLIO: Portfolio = { id: DEFAULT_PORTFOLIO_ID, name: 'My Portfolio' };
+
+// Saved portfolios; the default portfolio always exists and comes first
+export const loadPortfolios = (): Portfolio[] => {
+  try {
+    const saved: Portfolio[] = JSON.parse(localStorage.getItem(PORTFOLIOS_KEY) || '[]');
+    const defaultPortfolio = saved.find(portfolio => portfolio.id === DEFAULT_PORTFOLIO_ID) || DEFAULT_PORTFOLIO;
+    return [defaultPortfolio, ...saved.filter(portfolio => portfolio.id !== DEFAULT_PORTFOLIO_ID)];
+  } catch (error) {
+    return [DEFAULT_PORTFOLIO];
+  }
+};
+
+export const savePortfolios = (portfolios: Portfolio[]): void => {
+  localStorage.setItem(PORTFOLIOS_KEY, JSON.stringify(portfolios));
+};
+
+// Active portfolio id, or HOUSEHOLD_ID; falls back to the default if the saved one is gone
+export const loadActivePortfolioId = (portfolios: Portfolio[]): string => {
+  const saved = localStorage.getItem(ACTIVE_PORTFOLIO_KEY);
+  if (saved === HOUSEHOLD_ID || portfolios.some(portfolio => portfolio.id === saved)) {
+    return saved!;
+  }
+  return DEFAULT_PORTFOLIO_ID;
+};
+
+export const saveActivePortfolioId = (portfolioId: string): void => {
+  localStorage.setItem(ACTIVE_PORTFOLIO_KEY, portfolioId);
+};
+
+export const createPortfolioId = (): string =>
+  `portfolio-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const findPortfolioByName = (portfolios: Portfolio[], name: string): Portfolio | undefined =>
+  portfolios.find(portfolio => portfolio.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// Platform names are only unique within a portfolio, so the household view qualifies them
+export const householdPlatformName = (platform: string, portfolio: Portfolio): string =>
+  `${platform} (${portfolio.name})`;
@@ -0,0 +1,20 @@
+import type { StressScenario } from '../analytics';
+
+// Scenarios the user saved; like the portfolio list they are a preference, kept in localStorage
+const SCENARIOS_KEY = 'homestead-stress-scenarios';
+
+export const loadCustomScenarios = (): StressScenario[] => {
+  try {
+    const saved: StressScenario[] = JSON.parse(localStorage.getItem(SCENARIOS_KEY) || '[]');
+    return saved.filter(scenario => scenario.id && scenario.name && Array.isArray(scenario.shocks));
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveCustomScenarios = (scenarios: StressScenario[]): void => {
+  localStorage.setItem(SCENARIOS_KEY, JSON.stringify(scenarios));
+};
+
+export const createScenarioId = (): string =>
+  `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,151 @@
+import Papa from 'papaparse';
+import { TAX_TREATMENT_LABELS, type TaxReport } from '../analytics';
+import { formatCurrency } from './calculations';
+
+const money = (value: number): string => value.toFixed(2);
+
+const escapeHTML = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] || char);
+
+export const getTaxReportFilename = (report: TaxReport, extension: 'csv' | 'html'): string =>
+  `homestead-tax-report-${report.year}.${extension}`;
+
+/**
+ * The report as CSV: one row per platform, then the lots sold in the year after a blank line
+ */
+export const taxReportToCSV = (report: TaxReport): string => {
+  const summary = Papa.unparse({
+    fields: ['Platform', 'Treatment', 'Proceeds', 'CostBasis', 'ShortTermGain', 'LongTermGain', 'Dividends', 'Interest', 'Contributions'],
+    data: report.rows.map(row => [
+      row.platform,
+      TAX_TREATMENT_LABELS[row.treatment],
+      money(row.proceeds),
+      money(row.costBasis),
+      money(row.shortTermGain),
+      money(row.longTermGain),
+      money(row.dividends),
+      money(row.interest),
+      money(row.contributions)
+    ])
+  });
+  if (report.realized.length === 0) return summary;
+
+  const lots = Papa.unparse({
+    fields: ['Platform', 'Acquired', 'Sold', 'Proceeds', 'CostBasis', 'Gain', 'Term'],
+    data: report.realized.map(lot => [
+      lot.platform,
+      lot.openDate,
+      lot.closeDate,
+      money(lot.proceeds),
+      money(lot.costBasis),
+      money(lot.gain),
+      lot.term === 'long' ? 'Long-term' : 'Short-term'
+    ])
+  });
+  return `${summary}\r\n\r\n${lots}`;
+};
+
+/**
+ * The report as a standalone HTML page, styled for printing
+ */
+export const taxReportToHTML = (report: TaxReport): string => {
+  const format = (value: number) => escapeHTML(formatCurrency(value, report.currency));
+  const cell = (text: string) => `<td>${text}</td>`;
+  const rows = report.rows.map(row => `<tr>${[
+    escapeHTML(row.platform),
+    TAX_TREATMENT_LABELS[row.treatment],
+    format(row.proceeds),
+    format(row.costBasis),
+    format(row.shortTermGain),
+    format(row.longTermGain),
+    format(row.dividends),
+    format(row.interest),
+    format(row.contributions)
+  ].map(cell).join('')}</tr>`).join('\n');
+  const lots = report.realized.map(lot => `<tr>${[
+    escapeHTML(lot.platform),
+    lot.openDate,
+    lot.closeDate,
+    format(lot.proceeds),
+    format(lot.costBasis),
+    format(lot.gain),
+    lot.term === 'long' ? 'Long-term' : 'Short-term'
+  ].map(cell).join('')}</tr>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tax report ${report.year}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; margin: 24px; color: #222; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  p { margin: 0 0 12px; color: #555; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #ddd; text-align: left; }
+  th { background: #f3f3f3; }
+  dl { display: grid; grid-template-columns: max-content auto; gap: 2px 16px; }
+  dt { color: #555; }
+  dd { margin: 0; font-weight: 600; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Tax report ${report.year}</h1>
+<p>Generated by Homestead on ${new Date().toISOString().split('T')[0]}${report.currency ? `. Amounts in ${escapeHTML(report.currency)}` : ''}.</p>
+<h2>Taxable accounts</h2>
+<dl>
+  <dt>Short-term gains</dt><dd>${format(report.taxable.shortTermGain)}</dd>
+  <dt>Long-term gains</dt><dd>${format(report.taxable.longTermGain)}</dd>
+  <dt>Dividends</dt><dd>${format(report.taxable.dividends)}</dd>
+  <dt>Interest</dt><dd>${format(report.taxable.interest)}</dd>
+</dl>
+<h2>Contributions to tax-advantaged accounts</h2>
+<dl>
+  <dt>Tax-deferred</dt><dd>${format(report.advantagedContributions['tax-deferred'])}</dd>
+  <dt>Tax-free</dt><dd>${format(report.advantagedContributions['tax-free'])}</dd>
+</dl>
+<h2>By platform</h2>
+<table>
+<thead><tr><th>Platform</th><th>Treatment</th><th>Proceeds</th><th>Cost basis</th><th>Short-term</th><th>Long-term</th><th>Dividends</th><th>Interest</th><th>Contributions</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${report.realized.length > 0 ? `<h2>Lots sold</h2>
+<table>
+<thead><tr><th>Platform</th><th>Acquired</th><th>Sold</th><th>Proceeds</th><th>Cost basis</th><th>Gain</th><th>Term</th></tr></thead>
+<tbody>
+${lots}
+</tbody>
+</table>` : ''}
+</body>
+</html>
+`;
+};
+
+export const downloadHTML = (html: string, filename: string): void => {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Open the HTML report in a new window and bring up the print dialog; false when pop-ups are blocked
+export const printHTML = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
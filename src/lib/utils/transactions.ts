@@ -0,0 +1,82 @@
+import type { AssetEntry, TransactionType } from '../db';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  snapshot: 'Snapshot',
+  contribution: 'Contribution',
+  withdrawal: 'Withdrawal',
+  dividend: 'Dividend',
+  interest: 'Interest',
+  fee: 'Fee',
+  transfer: 'Transfer'
+};
+
+// Types whose amount is money moving in or out, as opposed to part of the return
+export const isCashFlowType = (type: TransactionType): boolean =>
+  type === 'contribution' || type === 'withdrawal' || type === 'transfer';
+
+export const isIncomeType = (type: TransactionType): boolean =>
+  type === 'dividend' || type === 'interest' || type === 'fee';
+
+type TransactionFields = Pick<AssetEntry, 'transactionType' | 'contributionAmount' | 'incomeAmount' | 'dataQuality'>;
+
+/**
+ * Entry fields for a transaction of the given type.
+ * Amounts are entered as positive numbers and signed here (withdrawals and fees become negative);
+ * transfers keep their sign, positive for money arriving and negative for money leaving.
+ * A zero amount records a plain snapshot.
+ */
+export const buildTransactionFields = (type: TransactionType, amount: number): TransactionFields => {
+  if (type === 'snapshot' || !amount) {
+    return {
+      transactionType: 'snapshot',
+      contributionAmount: undefined,
+      incomeAmount: undefined,
+      dataQuality: 'snapshot_only'
+    };
+  }
+
+  const magnitude = Math.abs(amount);
+  const signed: Record<Exclude<TransactionType, 'snapshot'>, number> = {
+    contribution: magnitude,
+    withdrawal: -magnitude,
+    transfer: amount,
+    dividend: magnitude,
+    interest: magnitude,
+    fee: -magnitude
+  };
+
+  return {
+    transactionType: type,
+    contributionAmount: isCashFlowType(type) ? signed[type] : undefined,
+    incomeAmount: isIncomeType(type) ? signed[type] : undefined,
+    dataQuality: 'enhanced'
+  };
+};
+
+/**
+ * Signed amount of an entry's transaction (flow or income), 0 for snapshots
+ */
+export const getTransactionAmount = (entry: AssetEntry): number => {
+  if (isIncomeType(entry.transactionType)) {
+    return entry.incomeAmount || 0;
+  }
+  return entry.contributionAmount || 0;
+};
+
+/**
+ * Money moved into (+) or out of (−) a platform by a transfer, 0 for anything else.
+ * Used to keep transfers out of per-platform gains; across the portfolio the two legs cancel.
+ */
+export const getTransferFlow = (entry: AssetEntry): number =>
+  entry.transactionType === 'transfer' ? entry.contributionAmount || 0 : 0;
+
+/**
+ * Validate the amount given for a transaction type; returns an error message or null
+ */
+export const validateTransactionAmount = (type: TransactionType, amount: number | undefined): string | null => {
+  if (type === 'snapshot') return null;
+  if (amount === undefined || isNaN(amount) || amount === 0) {
+    return `${TRANSACTION_TYPE_LABELS[type]} needs a non-zero amount`;
+  }
+  return null;
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import { svelte } from '@sveltejs/vite-plugin-svelte';
 
@@ -20,4 +21,8 @@ export default defineConfig({
       }
     }
   },
+  test: {
+    // The db module opens IndexedDB when imported
+    setupFiles: ['fake-indexeddb/auto']
+  },
 });
\ No newline at end of file